@@ -0,0 +1,53 @@
+/**
+ * Common Drupal routes that may not be discoverable from the indexed files
+ * Entity routes are generated from entity type link templates by EntityTypeParser
+ */
+export const COMMON_ROUTES = [
+  // Common admin routes
+  'system.admin',
+  'system.admin_content',
+  'system.admin_structure',
+  'system.admin_config',
+  'system.themes_page',
+  'system.modules_list',
+  'system.status',
+  'system.admin_reports',
+
+  // User routes
+  'user.login',
+  'user.logout',
+  'user.register',
+  'user.pass',
+  'user.page',
+  'user.admin_permissions',
+  'user.role_list',
+  'user.admin_index',
+
+  // Content routes
+  'node.add_page',
+  'node.add',
+  'system.db_update',
+
+  // Path alias routes
+  'path.admin_overview',
+  'path.admin_add',
+
+  // Config routes
+  'system.site_information_settings',
+  'system.performance_settings',
+  'system.logging_settings',
+  'system.cron_settings',
+
+  // Common View routes (examples - these are dynamic but commonly used)
+  'view.frontpage.page_1',
+  'view.content.page_1',
+  'view.files.page_1',
+  'view.user_admin_people.page_1'
+];
+
+/**
+ * Get all common routes
+ */
+export function getCommonRoutes(): string[] {
+  return COMMON_ROUTES;
+}
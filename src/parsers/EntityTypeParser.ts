@@ -0,0 +1,321 @@
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { getCacheManager, getIndexSnapshot } from '../server';
+import type { DrupalRoute } from './YamlRouteParser';
+
+export interface DrupalEntityType {
+  id: string;
+  kind: 'content' | 'config';
+  label?: string;
+  className?: string;
+  adminPermission?: string;
+  hasRouteProvider: boolean;
+  links: Array<{ name: string; path: string; line: number }>; // line is 1-based
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+/**
+ * Parser for Drupal entity type definitions
+ * Scans src/Entity/*.php for @ContentEntityType/@ConfigEntityType annotations
+ * and #[ContentEntityType]/#[ConfigEntityType] attributes
+ */
+export class EntityTypeParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private readonly ENTITY_TYPES_CACHE_PREFIX = 'entity:types:';
+  private readonly ENTITY_TYPES_TTL = Infinity;
+
+  private static readonly DEFINITION_PATTERN = /(?:@|#\[)(Content|Config)EntityType\s*\(/g;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Check if file is a PHP class in a module's src/Entity directory
+   */
+  static isEntityTypeFile(filePath: string): boolean {
+    return /\/src\/Entity\/[^/]+\.php$/.test(filePath);
+  }
+
+  /**
+   * Parse entity types from PHP file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalEntityType[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const entityTypes: DrupalEntityType[] = [];
+
+      if (content.includes('EntityType')) {
+        const namespace = content.match(/^namespace\s+([^;]+);/m)?.[1];
+
+        for (const match of content.matchAll(EntityTypeParser.DEFINITION_PATTERN)) {
+          const open = (match.index ?? 0) + match[0].length - 1;
+          const close = this.findClosingBracket(content, open);
+          if (close < 0) continue;
+
+          const entityType = this.parseDefinition(
+            content,
+            open,
+            close,
+            match[1] === 'Content' ? 'content' : 'config',
+            filePath
+          );
+          if (!entityType) continue;
+
+          const classMatch = /\bclass\s+(\w+)/.exec(content.substring(close));
+          if (classMatch) {
+            const classIndex = close + (classMatch.index ?? 0);
+            entityType.className = namespace ? `${namespace}\\${classMatch[1]}` : classMatch[1];
+            entityType.sourceLine = this.lineAt(content, classIndex).toString();
+          }
+
+          entityTypes.push(entityType);
+        }
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.ENTITY_TYPES_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, entityTypes, this.ENTITY_TYPES_TTL);
+
+      return entityTypes;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Read id, label, admin_permission, links and route_provider from
+   * the annotation or attribute arguments between open and close
+   */
+  private parseDefinition(
+    content: string,
+    open: number,
+    close: number,
+    kind: DrupalEntityType['kind'],
+    filePath: string
+  ): DrupalEntityType | null {
+    const body = content.substring(open, close + 1);
+
+    // Top-level keys are unquoted: id = "node" (annotation) or id: 'node' (attribute)
+    const id = body.match(/[\s(,*]id\s*[=:]\s*["']([a-z0-9_]+)["']/)?.[1];
+    if (!id) return null;
+
+    const label = body.match(
+      /[\s(,*]label\s*[=:]\s*(?:@Translation\(|new TranslatableMarkup\()?\s*["']([^"']+)["']/
+    )?.[1];
+    const adminPermission = body.match(/[\s(,*]admin_permission\s*[=:]\s*["']([^"']+)["']/)?.[1];
+    const hasRouteProvider = /["']route_provider["']\s*=>?\s*[{[]/.test(body);
+
+    const links: DrupalEntityType['links'] = [];
+    const linksMatch = /[\s(,*]links\s*[=:]\s*([{[])/.exec(body);
+    if (linksMatch) {
+      const linksOpen = open + (linksMatch.index ?? 0) + linksMatch[0].length - 1;
+      const linksClose = this.findClosingBracket(content, linksOpen);
+      const linksBody = linksClose > 0 ? content.substring(linksOpen, linksClose + 1) : '';
+
+      // "canonical" = "/node/{node}" or 'canonical' => '/node/{node}'
+      for (const link of linksBody.matchAll(/(["'])([a-z0-9_-]+)\1\s*=>?\s*(["'])([^"']+)\3/g)) {
+        links.push({
+          name: link[2],
+          path: link[4],
+          line: this.lineAt(content, linksOpen + (link.index ?? 0))
+        });
+      }
+    }
+
+    return {
+      id,
+      kind,
+      label,
+      adminPermission,
+      hasRouteProvider,
+      links,
+      sourceFile: filePath,
+      sourceLine: this.lineAt(content, open).toString(),
+      sourceType: this.determineSourceType(filePath)
+    };
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(content: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[' || char === '{') depth++;
+      else if (char === ')' || char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * 1-based line number of an offset
+   */
+  private lineAt(content: string, offset: number): number {
+    return content.substring(0, offset).split('\n').length;
+  }
+
+  /**
+   * Build the routes a route provider generates from the link templates
+   * e.g. "edit-form" of node => entity.node.edit_form
+   */
+  buildRoutes(entityType: DrupalEntityType): DrupalRoute[] {
+    if (!entityType.hasRouteProvider) return [];
+
+    return entityType.links.map((link) => {
+      const route: DrupalRoute = {
+        name: `entity.${entityType.id}.${link.name.replace(/-/g, '_')}`,
+        path: link.path,
+        entityType: entityType.id,
+        sourceFile: entityType.sourceFile,
+        sourceLine: link.line.toString(),
+        sourceType: entityType.sourceType
+      };
+
+      switch (link.name) {
+        case 'canonical':
+          route.defaults = { _entity_view: `${entityType.id}.full` };
+          route.requirements = { _entity_access: `${entityType.id}.view` };
+          break;
+        case 'add-form':
+          route.defaults = { _entity_form: `${entityType.id}.default` };
+          route.requirements = { _entity_create_access: entityType.id };
+          break;
+        case 'edit-form':
+          route.defaults = { _entity_form: `${entityType.id}.edit` };
+          route.requirements = { _entity_access: `${entityType.id}.update` };
+          break;
+        case 'delete-form':
+          route.defaults = { _entity_form: `${entityType.id}.delete` };
+          route.requirements = { _entity_access: `${entityType.id}.delete` };
+          break;
+        case 'collection':
+          route.defaults = { _entity_list: entityType.id };
+          if (entityType.adminPermission) {
+            route.requirements = { _permission: entityType.adminPermission };
+          }
+          break;
+      }
+
+      return route;
+    });
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all entity class files
+   */
+  async findAllEntityTypeFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/src/Entity/*.php', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find entity type files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all entity class files
+   */
+  async scanAndIndex(): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllEntityTypes().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllEntityTypeFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const file of files) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalEntityType[]>(this.ENTITY_TYPES_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.ENTITY_TYPES_CACHE_PREFIX + file, records, this.ENTITY_TYPES_TTL);
+        } else {
+          snapshot.set(this.ENTITY_TYPES_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+      }
+      snapshot.retain(this.ENTITY_TYPES_CACHE_PREFIX, files);
+    }
+
+    return this.getAllEntityTypes().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (EntityTypeParser.isEntityTypeFile(filePath)) {
+      getIndexSnapshot().set(this.ENTITY_TYPES_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.ENTITY_TYPES_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.ENTITY_TYPES_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.ENTITY_TYPES_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllEntityTypes(): DrupalEntityType[] {
+    const cache = getCacheManager();
+    const allEntityTypes: DrupalEntityType[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.ENTITY_TYPES_CACHE_PREFIX + filePath;
+      const entityTypes = cache.get(cacheKey) as DrupalEntityType[] | undefined;
+      if (entityTypes) allEntityTypes.push(...entityTypes);
+    }
+
+    return allEntityTypes;
+  }
+
+  /**
+   * Get all routes generated by entity route providers
+   */
+  getAllEntityRoutes(): DrupalRoute[] {
+    return this.getAllEntityTypes().flatMap((entityType) => this.buildRoutes(entityType));
+  }
+}
@@ -0,0 +1,369 @@
+import * as fs from 'fs';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { BaseClassResolver } from '../providers/base/BaseClassResolver';
+import { getCacheManager, getIndexSnapshot, getYamlServiceParser } from '../server';
+
+export interface DrupalEventSubscription {
+  event: string; // Event name, e.g. kernel.request, or Class::CONSTANT if the constant can't be resolved
+  constant?: string; // Class constant the event is subscribed with, e.g. Drupal\Core\Config\ConfigEvents::SAVE
+  className: string;
+  methodName: string;
+  priority: number;
+  sourceFile: string;
+  sourceLine: string; // Line of the method name in getSubscribedEvents()
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+export interface EventSubscriptionMatch {
+  event: string; // As written, e.g. KernelEvents::REQUEST or config.save
+  isConstant: boolean;
+  methodName: string;
+  priority: number;
+  line: number; // Zero-based line of the method name
+  start: number;
+  end: number;
+}
+
+/**
+ * Parser for event subscriptions
+ * Reads getSubscribedEvents() of the classes of services tagged event_subscriber, handling
+ * $events[KernelEvents::REQUEST][] = ['onRequest', 100] and return [ConfigEvents::SAVE => 'onSave'] forms
+ * Uses global cache with infinite TTL for subscriptions
+ */
+export class EventSubscriberParser {
+  private drupalResolver: DrupalProjectResolver;
+  private classResolver: BaseClassResolver;
+  private scannedFiles: Set<string> = new Set();
+  private constants: Map<string, string | null> = new Map();
+  private readonly EVENTS_CACHE_PREFIX = 'events:';
+  private readonly EVENTS_TTL = Infinity;
+
+  // Symfony classes live in vendor, which isn't indexed
+  private static readonly SYMFONY_EVENTS: Record<string, string> = {
+    'Symfony\\Component\\HttpKernel\\KernelEvents::REQUEST': 'kernel.request',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::EXCEPTION': 'kernel.exception',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::CONTROLLER': 'kernel.controller',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::CONTROLLER_ARGUMENTS': 'kernel.controller_arguments',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::VIEW': 'kernel.view',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::RESPONSE': 'kernel.response',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::FINISH_REQUEST': 'kernel.finish_request',
+    'Symfony\\Component\\HttpKernel\\KernelEvents::TERMINATE': 'kernel.terminate'
+  };
+
+  private static readonly EVENT = String.raw`(?:'([^']+)'|"([^"]+)"|([\w\\]+::\w+))`;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+    this.classResolver = new BaseClassResolver(drupalResolver.getDrupalRootAbsolute());
+  }
+
+  /**
+   * Find subscriptions in getSubscribedEvents() with the positions of their method names
+   * Listeners may be 'method', ['method', priority] or a list of those
+   */
+  static findSubscriptions(content: string): EventSubscriptionMatch[] {
+    const results: EventSubscriptionMatch[] = [];
+    const method = content.match(/function\s+getSubscribedEvents\s*\([^)]*\)[^{;]*\{/);
+    if (!method) return results;
+
+    const bodyStart = (method.index ?? 0) + method[0].length;
+    const bodyEnd = EventSubscriberParser.findClosing(content, bodyStart - 1);
+    if (bodyEnd < 0) return results;
+
+    const body = content.substring(0, bodyEnd);
+    const assignments = new RegExp(
+      String.raw`\$\w+\[\s*${EventSubscriberParser.EVENT}\s*\](?:\s*\[\s*\])?\s*=\s*|${EventSubscriberParser.EVENT}\s*=>\s*`,
+      'g'
+    );
+    assignments.lastIndex = bodyStart;
+
+    let match;
+    while ((match = assignments.exec(body)) !== null) {
+      const event = match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5] ?? match[6];
+      const isConstant = (match[3] ?? match[6]) !== undefined;
+      const valueStart = match.index + match[0].length;
+
+      let valueEnd = -1;
+      if (body[valueStart] === '[') {
+        valueEnd = EventSubscriberParser.findClosing(body, valueStart);
+      } else if (body.startsWith('array(', valueStart)) {
+        valueEnd = EventSubscriberParser.findClosing(body, valueStart + 5);
+      } else if (body[valueStart] === "'" || body[valueStart] === '"') {
+        valueEnd = body.indexOf(body[valueStart], valueStart + 1);
+      }
+      if (valueEnd < 0) continue;
+
+      const value = body.substring(valueStart, valueEnd + 1);
+      const listeners = /^['"]/.test(value)
+        ? [...value.matchAll(/^(['"])(\w+)\1/g)]
+        : [...value.matchAll(/(['"])(\w+)\1\s*(?:,\s*([^\])]+?))?\s*[\])]/g)];
+
+      for (const listener of listeners) {
+        const offset = valueStart + (listener.index ?? 0) + 1;
+        const position = content.substring(0, offset).split('\n');
+        const start = position[position.length - 1].length;
+        const priority = parseInt(listener[3] ?? '0', 10);
+
+        results.push({
+          event,
+          isConstant,
+          methodName: listener[2],
+          priority: isNaN(priority) ? 0 : priority,
+          line: position.length - 1,
+          start,
+          end: start + listener[2].length
+        });
+      }
+
+      assignments.lastIndex = valueEnd + 1;
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the bracket, parenthesis or brace closing the one at openIndex, skipping quoted strings
+   */
+  private static findClosing(content: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === quote && content[i - 1] !== '\\') quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if ('([{'.includes(char)) depth++;
+      else if (')]}'.includes(char)) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Parse event subscriptions from PHP class and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalEventSubscription[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const subscriptions: DrupalEventSubscription[] = [];
+      const className = this.classResolver.resolveImportedClass(content, 'self');
+      const sourceType = this.determineSourceType(filePath);
+
+      for (const match of EventSubscriberParser.findSubscriptions(content)) {
+        // Constants may be declared in other files, so records keep them and getAllSubscriptions() resolves them
+        const constant = match.isConstant ? this.resolveConstant(content, match.event) : undefined;
+
+        subscriptions.push({
+          event: constant ?? match.event,
+          constant,
+          className,
+          methodName: match.methodName,
+          priority: match.priority,
+          sourceFile: filePath,
+          sourceLine: (match.line + 1).toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.EVENTS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, subscriptions, this.EVENTS_TTL);
+
+      return subscriptions;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a Class::CONSTANT expression written in a PHP file to the event name it holds
+   * Events dispatched by class name use Class::class
+   */
+  resolveEventName(content: string, expression: string): string {
+    return this.getEventName(this.resolveConstant(content, expression));
+  }
+
+  /**
+   * Get the event name held by a fully qualified Class::CONSTANT, or the constant if it can't be read
+   */
+  private getEventName(constant: string): string {
+    const [className, name] = constant.split('::');
+    if (name === 'class') return className;
+
+    if (!this.constants.has(constant)) {
+      this.constants.set(constant, this.readConstant(className, name));
+    }
+    return this.constants.get(constant) ?? constant;
+  }
+
+  /**
+   * Get fully qualified Class::CONSTANT of an expression written in a PHP file
+   */
+  private resolveConstant(content: string, expression: string): string {
+    const [className, name] = expression.split('::');
+    return `${this.classResolver.resolveImportedClass(content, className)}::${name}`;
+  }
+
+  /**
+   * Read a string constant from the class file
+   */
+  private readConstant(className: string, name: string): string | null {
+    const classPath = this.classResolver.resolveClassPath(className);
+
+    try {
+      if (classPath) {
+        const content = fs.readFileSync(classPath, 'utf-8');
+        const match = content.match(new RegExp(String.raw`\bconst\s+${name}\s*=\s*(['"])([^'"]+)\1`));
+        if (match) return match[2];
+      }
+    } catch {
+      // Class file doesn't exist
+    }
+
+    return EventSubscriberParser.SYMFONY_EVENTS[`${className}::${name}`] ?? null;
+  }
+
+  /**
+   * Forget constants read from a class file, they are read again on the next lookup
+   */
+  private clearConstants(filePath: string): void {
+    for (const constant of [...this.constants.keys()]) {
+      if (this.classResolver.resolveClassPath(constant.split('::')[0]) === filePath) {
+        this.constants.delete(constant);
+      }
+    }
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find class files of services tagged event_subscriber
+   */
+  findAllSubscriberFiles(): string[] {
+    const files = new Set<string>();
+
+    for (const service of getYamlServiceParser().getServicesByTag('event_subscriber')) {
+      if (!service.class) continue;
+
+      const classPath = this.classResolver.resolveClassPath(service.class.replace(/^\\/, ''));
+      if (classPath && fs.existsSync(classPath)) files.add(classPath);
+    }
+
+    return [...files];
+  }
+
+  /**
+   * Scan and index all event subscriber classes
+   * Services must be indexed first
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllSubscriptions().length > 0;
+
+    if (!hasCache) {
+      const files = this.findAllSubscriberFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalEventSubscription[]>(this.EVENTS_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.EVENTS_CACHE_PREFIX + file, records, this.EVENTS_TTL);
+        } else {
+          snapshot.set(this.EVENTS_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.EVENTS_CACHE_PREFIX, files);
+    }
+
+    return this.getAllSubscriptions().length;
+  }
+
+  /**
+   * Reindex a PHP file if it is the class of a service tagged event_subscriber
+   * Event constants declared in the file are read again as well
+   */
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearConstants(filePath);
+    if (!this.scannedFiles.has(filePath)) return;
+
+    this.clearCache(filePath);
+    getIndexSnapshot().set(this.EVENTS_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+  }
+
+  /**
+   * Index classes of newly tagged services after a services file changed
+   */
+  async handleServicesChange(): Promise<void> {
+    for (const file of this.findAllSubscriberFiles()) {
+      if (this.scannedFiles.has(file)) continue;
+      getIndexSnapshot().set(this.EVENTS_CACHE_PREFIX, file, await this.parseFile(file));
+      this.scannedFiles.add(file);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.clearConstants(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.EVENTS_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.EVENTS_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.EVENTS_CACHE_PREFIX + '*');
+    }
+  }
+
+  /**
+   * Get all subscriptions with the event names of their constants
+   */
+  getAllSubscriptions(): DrupalEventSubscription[] {
+    const cache = getCacheManager();
+    const allSubscriptions: DrupalEventSubscription[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.EVENTS_CACHE_PREFIX + filePath;
+      const subscriptions = cache.get(cacheKey) as DrupalEventSubscription[] | undefined;
+      if (subscriptions) allSubscriptions.push(...subscriptions);
+    }
+
+    return allSubscriptions.map((subscription) =>
+      subscription.constant ? { ...subscription, event: this.getEventName(subscription.constant) } : subscription
+    );
+  }
+
+  /**
+   * Get subscriptions to an event in dispatch order, highest priority first
+   */
+  getSubscriptions(event: string): DrupalEventSubscription[] {
+    return this.getAllSubscriptions()
+      .filter((subscription) => subscription.event === event)
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
@@ -0,0 +1,333 @@
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager } from '../server';
+
+export interface DrupalHook {
+  name: string; // Without the hook_ prefix, e.g. form_FORM_ID_alter
+  parameters: string; // Parameter list as declared in the API file
+  description?: string; // First paragraph of the docblock
+  pattern?: string; // Regex source for hooks with placeholders like FORM_ID or ENTITY_TYPE
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+export interface DrupalHookImplementation {
+  hook: string;
+  className: string; // Hook classes are autowired services keyed by class name
+  methodName: string;
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+/**
+ * Parser for hook definitions in *.api.php files
+ * and #[Hook] attribute implementations in src/Hook classes (Drupal 11.1+)
+ * Uses global cache with infinite TTL for hook definitions
+ */
+export class HookParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private scannedHookClassFiles: Set<string> = new Set();
+  private readonly HOOKS_CACHE_PREFIX = 'hooks:';
+  private readonly IMPLEMENTATIONS_CACHE_PREFIX = 'hooks:implementations:';
+  private readonly HOOKS_TTL = Infinity;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Parse hook_*() function definitions and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalHook[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const hooks: DrupalHook[] = [];
+      const sourceType = this.determineSourceType(filePath);
+
+      for (const match of content.matchAll(/^function\s+hook_(\w+)\s*\(/gm)) {
+        const name = match[1];
+        const open = (match.index ?? 0) + match[0].length - 1;
+        const close = this.findClosingParenthesis(content, open);
+        if (close < 0) continue;
+
+        const lineIndex = content.substring(0, match.index).split('\n').length;
+
+        hooks.push({
+          name,
+          parameters: content.substring(open + 1, close).replace(/\s+/g, ' ').trim(),
+          description: this.extractSummary(content, match.index ?? 0),
+          pattern: /[A-Z]/.test(name) ? HookParser.buildPattern(name) : undefined,
+          sourceFile: filePath,
+          sourceLine: lineIndex.toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.HOOKS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, hooks, this.HOOKS_TTL);
+
+      return hooks;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Check if file is a class in a module's src/Hook directory
+   */
+  static isHookClassFile(filePath: string): boolean {
+    return /\/src\/Hook\/.+\.php$/.test(filePath);
+  }
+
+  /**
+   * Parse #[Hook('...')] attributes on methods and classes and cache with infinite TTL
+   * Class level attributes name the method with method: or use __invoke()
+   */
+  async parseHookClassFile(filePath: string): Promise<DrupalHookImplementation[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const implementations: DrupalHookImplementation[] = [];
+      const sourceType = this.determineSourceType(filePath);
+
+      const namespace = content.match(/^namespace\s+([^;]+);/m)?.[1];
+      const className = content.match(/\bclass\s+(\w+)/)?.[1];
+
+      if (className) {
+        const fqcn = namespace ? `${namespace}\\${className}` : className;
+        const attributePattern = /#\[Hook\(\s*(?:hook:\s*)?(['"])([a-zA-Z0-9_]+)\1([^\n]*?)\)\]/g;
+
+        for (const match of content.matchAll(attributePattern)) {
+          const index = match.index ?? 0;
+          const after = content.substring(index + match[0].length);
+          const target = after.match(/\b(class|function)\s+(\w+)/);
+          if (!target) continue;
+
+          const methodName = target[1] === 'function'
+            ? target[2]
+            : match[3].match(/method:\s*['"](\w+)['"]/)?.[1] ?? '__invoke';
+
+          implementations.push({
+            hook: match[2],
+            className: fqcn,
+            methodName,
+            sourceFile: filePath,
+            sourceLine: content.substring(0, index).split('\n').length.toString(),
+            sourceType
+          });
+        }
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.IMPLEMENTATIONS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, implementations, this.HOOKS_TTL);
+
+      return implementations;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Convert placeholders to regex source
+   * e.g. form_FORM_ID_alter => /^form_[a-z0-9_]+_alter$/
+   */
+  static buildPattern(name: string): string {
+    return '^' + name.split(/[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*/).join('[a-z0-9_]+') + '$';
+  }
+
+  private findClosingParenthesis(content: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < content.length; i++) {
+      if (content[i] === '(') depth++;
+      if (content[i] === ')') depth--;
+      if (depth === 0) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Get first paragraph of the docblock right before the function
+   */
+  private extractSummary(content: string, functionIndex: number): string | undefined {
+    const before = content.substring(0, functionIndex).trimEnd();
+    if (!before.endsWith('*/')) return undefined;
+
+    const docStart = before.lastIndexOf('/**');
+    if (docStart < 0) return undefined;
+
+    const summary: string[] = [];
+    for (const line of before.substring(docStart + 3, before.length - 2).split('\n')) {
+      const text = line.trim().replace(/^\*\s?/, '').trim();
+      if (!text) {
+        if (summary.length > 0) break;
+        continue;
+      }
+      if (text.startsWith('@')) break;
+      summary.push(text);
+    }
+
+    return summary.length > 0 ? summary.join(' ') : undefined;
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all hook API files
+   */
+  async findAllApiFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/*.api.php', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find hook API files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Find all classes that can hold #[Hook] implementations
+   */
+  async findAllHookClassFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/src/Hook/**/*.php', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find hook classes:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all hook API files and hook classes
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllHooks().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllApiFiles();
+      const classFiles = await this.findAllHookClassFiles();
+      const total = files.length + classFiles.length;
+
+      for (const [index, file] of files.entries()) {
+        await this.parseFile(file);
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, total);
+      }
+
+      for (const [index, file] of classFiles.entries()) {
+        await this.parseHookClassFile(file);
+        this.scannedHookClassFiles.add(file);
+        await onProgress?.(files.length + index + 1, total);
+      }
+    }
+
+    return this.getAllHooks().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (filePath.endsWith('.api.php')) {
+      await this.parseFile(filePath);
+      this.scannedFiles.add(filePath);
+    } else if (HookParser.isHookClassFile(filePath)) {
+      await this.parseHookClassFile(filePath);
+      this.scannedHookClassFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    this.scannedHookClassFiles.delete(filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.HOOKS_CACHE_PREFIX + filePath);
+      cache.delete(this.IMPLEMENTATIONS_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.HOOKS_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllHooks(): DrupalHook[] {
+    const cache = getCacheManager();
+    const allHooks: DrupalHook[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.HOOKS_CACHE_PREFIX + filePath;
+      const hooks = cache.get(cacheKey) as DrupalHook[] | undefined;
+      if (hooks) allHooks.push(...hooks);
+    }
+
+    return allHooks;
+  }
+
+  /**
+   * Get hook by name (without hook_ prefix), including hooks matched by a placeholder pattern
+   */
+  getHook(hookName: string): DrupalHook | null {
+    const hooks = this.getAllHooks();
+
+    const exact = hooks.find((h) => h.name === hookName);
+    if (exact) return exact;
+
+    return hooks.find((h) => h.pattern && new RegExp(h.pattern).test(hookName)) || null;
+  }
+
+  getAllImplementations(): DrupalHookImplementation[] {
+    const cache = getCacheManager();
+    const allImplementations: DrupalHookImplementation[] = [];
+
+    for (const filePath of this.scannedHookClassFiles) {
+      const cacheKey = this.IMPLEMENTATIONS_CACHE_PREFIX + filePath;
+      const implementations = cache.get(cacheKey) as DrupalHookImplementation[] | undefined;
+      if (implementations) allImplementations.push(...implementations);
+    }
+
+    return allImplementations;
+  }
+
+  /**
+   * Check if class implements hooks with #[Hook] attributes
+   * Such classes are registered as autowired services with the class name as ID
+   */
+  isHookClass(className: string): boolean {
+    const name = className.replace(/^\\/, '');
+    return this.getAllImplementations().some((i) => i.className === name);
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
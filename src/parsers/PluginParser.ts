@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalPlugin {
+  id: string;
+  type: string; // Annotation or attribute name, e.g. Block, FieldType, RenderElement
+  label?: string;
+  className?: string;
+  hasDeriver: boolean; // Derived plugins are referenced as "id:derivative_id"
+  sourceFile: string;
+  sourceLine: string; // Line of the class declaration
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+/**
+ * Parser for Drupal plugin definitions
+ * Scans Plugin directories for docblock annotations like @Block(id = "...")
+ * and PHP 8 attributes like #[Block(id: '...')]
+ * Render elements in Element directories use a positional ID: @FormElement("textfield")
+ * Uses global cache with infinite TTL for plugin definitions
+ */
+export class PluginParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private readonly PLUGINS_CACHE_PREFIX = 'plugins:';
+  private readonly PLUGINS_TTL = Infinity;
+
+  // Annotations start a docblock line, attributes start a code line
+  private static readonly DEFINITION_PATTERN = /^[ \t]*(?:\*[ \t]*@|#\[)([A-Z]\w*)\s*\(/gm;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Check if file is a PHP class in a Plugin or Element namespace
+   * e.g. src/Plugin/Block/MyBlock.php or core/lib/Drupal/Core/Render/Element/Textfield.php
+   */
+  static isPluginFile(filePath: string): boolean {
+    return /\/(?:Plugin\/.+|Element\/[^/]+)\.php$/.test(filePath);
+  }
+
+  /**
+   * Parse plugin definitions from PHP file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalPlugin[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const plugins: DrupalPlugin[] = [];
+      const namespace = content.match(/^namespace\s+([^;]+);/m)?.[1];
+      const sourceType = this.determineSourceType(filePath);
+      let lastClose = -1;
+
+      for (const match of content.matchAll(PluginParser.DEFINITION_PATTERN)) {
+        // Skip nested definitions like @ContextDefinition inside a plugin annotation
+        if ((match.index ?? 0) < lastClose) continue;
+
+        const open = (match.index ?? 0) + match[0].length - 1;
+        const close = this.findClosingBracket(content, open);
+        if (close < 0) continue;
+        lastClose = close;
+
+        const body = content.substring(open, close + 1);
+        const isAttribute = match[0].trimStart().startsWith('#[');
+
+        // id = "system_branding_block" (annotation), id: 'system_branding_block' (attribute) or a positional string
+        const id = (isAttribute
+          ? body.match(/[\s(,]id:\s*['"]([^'"]+)['"]/)?.[1]
+          : body.match(/[\s(,*]id\s*=\s*"([^"]+)"/)?.[1]) ?? body.match(/^\(\s*['"]([^'"]+)['"]/)?.[1];
+        if (!id) continue;
+
+        // Definition must belong to the class that follows it
+        const classMatch = /\bclass\s+(\w+)/.exec(content.substring(close));
+        if (!classMatch) continue;
+        const classIndex = close + (classMatch.index ?? 0);
+
+        plugins.push({
+          id,
+          type: match[1],
+          label: this.extractLabel(body),
+          className: namespace ? `${namespace}\\${classMatch[1]}` : classMatch[1],
+          hasDeriver: /[\s(,*]deriver\s*[=:]/.test(body),
+          sourceFile: filePath,
+          sourceLine: this.lineAt(content, classIndex).toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.PLUGINS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, plugins, this.PLUGINS_TTL);
+
+      return plugins;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Read label or admin_label, wrapped in @Translation() or new TranslatableMarkup()
+   */
+  private extractLabel(body: string): string | undefined {
+    const match = body.match(
+      /[\s(,*](?:admin_label|label|title)\s*[=:]\s*(?:@Translation\(|new TranslatableMarkup\()?\s*(["'])(.+?)\1/
+    );
+    return match?.[2];
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(content: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[' || char === '{') depth++;
+      else if (char === ')' || char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * 1-based line number of an offset
+   */
+  private lineAt(content: string, offset: number): number {
+    return content.substring(0, offset).split('\n').length;
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all plugin class files in Drupal installation
+   */
+  async findAllPluginFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg(['**/Plugin/**/*.php', '**/Element/*.php'], {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find plugin files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all plugin class files
+   * If cache is empty, triggers full reindex
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllPlugins().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllPluginFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalPlugin[]>(this.PLUGINS_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.PLUGINS_CACHE_PREFIX + file, records, this.PLUGINS_TTL);
+        } else {
+          snapshot.set(this.PLUGINS_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.PLUGINS_CACHE_PREFIX, files);
+    }
+
+    return this.getAllPlugins().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (PluginParser.isPluginFile(filePath)) {
+      getIndexSnapshot().set(this.PLUGINS_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.PLUGINS_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.PLUGINS_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.PLUGINS_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllPlugins(): DrupalPlugin[] {
+    const cache = getCacheManager();
+    const allPlugins: DrupalPlugin[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.PLUGINS_CACHE_PREFIX + filePath;
+      const plugins = cache.get(cacheKey) as DrupalPlugin[] | undefined;
+      if (plugins) allPlugins.push(...plugins);
+    }
+
+    return allPlugins;
+  }
+
+  /**
+   * Get all plugins of one or more types, e.g. ['FieldFormatter']
+   */
+  getPluginsByType(types: string[]): DrupalPlugin[] {
+    return this.getAllPlugins().filter((p) => types.includes(p.type));
+  }
+
+  /**
+   * Get plugin by ID, optionally limited to plugin types
+   * Derivative IDs like "system_menu_block:main" resolve to their base plugin
+   */
+  getPlugin(pluginId: string, types?: string[]): DrupalPlugin | null {
+    const plugins = types ? this.getPluginsByType(types) : this.getAllPlugins();
+
+    const exact = plugins.find((p) => p.id === pluginId);
+    if (exact) return exact;
+
+    const separator = pluginId.indexOf(':');
+    if (separator < 0) return null;
+
+    const baseId = pluginId.substring(0, separator);
+    return plugins.find((p) => p.id === baseId && p.hasDeriver) || null;
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
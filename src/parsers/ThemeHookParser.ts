@@ -0,0 +1,403 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalThemeHook {
+  name: string;
+  variables: string[]; // Keys of the variables array
+  renderElement?: string; // Set instead of variables for render element hooks, e.g. form
+  template: string; // Template name without .html.twig, defaults to the hook name with - for _
+  templateDirectory: string; // Directory searched for the template, the extension's templates unless path is set
+  baseHook?: string;
+  extension: string;
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+type ArrayEntry = { key: string; value: string; offset: number };
+
+/**
+ * Parser for theme hooks declared by hook_theme() in *.module and *.theme files
+ * and #[Hook('theme')] methods in src/Hook classes
+ * Uses global cache with infinite TTL for theme hook definitions
+ */
+export class ThemeHookParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private readonly THEME_HOOKS_CACHE_PREFIX = 'theme_hooks:';
+  private readonly THEME_HOOKS_TTL = Infinity;
+
+  // Variables added to every template by template_preprocess()
+  static readonly DEFAULT_VARIABLES = [
+    'attributes', 'title_attributes', 'content_attributes', 'title_prefix', 'title_suffix',
+    'db_is_active', 'is_admin', 'logged_in', 'user', 'directory', 'theme_hook_original'
+  ];
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Check if file can declare theme hooks
+   */
+  static isThemeHookFile(filePath: string): boolean {
+    return filePath.endsWith('.module') || filePath.endsWith('.theme') || /\/src\/Hook\/.+\.php$/.test(filePath);
+  }
+
+  /**
+   * Parse theme hooks from the hook_theme() return array and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalThemeHook[]> {
+    try {
+      const content = this.blankComments(fs.readFileSync(filePath, 'utf-8'));
+      const themeHooks: DrupalThemeHook[] = [];
+      const sourceType = this.determineSourceType(filePath);
+      const extensionDirectory = this.getExtensionDirectory(filePath);
+      const extension = path.basename(extensionDirectory);
+
+      for (const entry of this.findThemeEntries(content, extension)) {
+        const definition = entry.value.match(/^(?:\[|array\s*\()/)
+          ? this.parseArrayEntries(content, entry.offset + entry.value.search(/[[(]/))
+          : [];
+
+        const get = (key: string) => {
+          const value = definition.find((d) => d.key === key)?.value;
+          return value?.match(/^(['"])(.*)\1$/)?.[2];
+        };
+
+        const variablesEntry = definition.find((d) => d.key === 'variables');
+        const variables = variablesEntry && /^(?:\[|array\s*\()/.test(variablesEntry.value)
+          ? this.parseArrayEntries(content, variablesEntry.offset + variablesEntry.value.search(/[[(]/)).map((v) => v.key)
+          : [];
+
+        const templatePath = get('path');
+
+        themeHooks.push({
+          name: entry.key,
+          variables,
+          renderElement: get('render element'),
+          template: get('template') ?? entry.key.replace(/_/g, '-'),
+          templateDirectory: templatePath
+            ? path.join(this.drupalResolver.getDrupalRootAbsolute(), templatePath)
+            : path.join(extensionDirectory, 'templates'),
+          baseHook: get('base hook'),
+          extension,
+          sourceFile: filePath,
+          sourceLine: content.substring(0, entry.offset).split('\n').length.toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.THEME_HOOKS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, themeHooks, this.THEME_HOOKS_TTL);
+
+      return themeHooks;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the theme hook entries of hook_theme() implementations, searching only the function body
+   * Handles return [...] as well as return $items; built with $items = [...] and $items['hook'] = [...]
+   */
+  private findThemeEntries(content: string, extension: string): ArrayEntry[] {
+    const entries: ArrayEntry[] = [];
+    const functionPattern = new RegExp(`^function\\s+${extension}_theme\\s*\\(`, 'gm');
+    const attributePattern = /#\[Hook\(\s*(?:hook:\s*)?['"]theme['"]\s*\)\]/g;
+
+    for (const match of [...content.matchAll(functionPattern), ...content.matchAll(attributePattern)]) {
+      const open = content.indexOf('{', match.index ?? 0);
+      const close = open < 0 ? -1 : this.findClosingBracket(content, open);
+      if (close < 0) continue;
+
+      const body = content.substring(open, close);
+      const returnMatch = body.match(/\breturn\s+(?:(\[|array\s*\()|\$(\w+)\s*;)/);
+      if (!returnMatch) continue;
+
+      if (returnMatch[1]) {
+        entries.push(...this.parseArrayEntries(content, open + (returnMatch.index ?? 0) + returnMatch[0].length - 1));
+        continue;
+      }
+
+      const assignment = new RegExp(String.raw`\$${returnMatch[2]}\s*(?:\[\s*(['"])(.+?)\1\s*\])?\s*=\s*(?:\[|array\s*\()`, 'g');
+      for (const assigned of body.matchAll(assignment)) {
+        const arrayStart = open + (assigned.index ?? 0) + assigned[0].length - 1;
+
+        if (assigned[2] === undefined) {
+          entries.push(...this.parseArrayEntries(content, arrayStart));
+        } else {
+          const arrayEnd = this.findClosingBracket(content, arrayStart);
+          if (arrayEnd < 0) continue;
+          entries.push({ key: assigned[2], value: content.substring(arrayStart, arrayEnd + 1), offset: arrayStart });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Find the bracket or brace closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(content: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[' || char === '{') depth++;
+      else if (char === ')' || char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Parse 'key' => value entries of the PHP array opening at openIndex
+   * Values are kept as source text, nested arrays are parsed by calling this again
+   */
+  private parseArrayEntries(content: string, openIndex: number): ArrayEntry[] {
+    const entries: ArrayEntry[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let segmentStart = openIndex + 1;
+
+    const pushSegment = (end: number) => {
+      const segment = content.substring(segmentStart, end);
+      const match = segment.match(/^(\s*)(['"])(.+?)\2\s*=>\s*/);
+      if (match) {
+        entries.push({
+          key: match[3],
+          value: segment.substring(match[0].length).trim(),
+          offset: segmentStart + match[0].length
+        });
+      }
+      segmentStart = end + 1;
+    };
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[') depth++;
+      else if (char === ')' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          pushSegment(i);
+          break;
+        }
+      } else if (char === ',' && depth === 1) {
+        pushSegment(i);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Replace comments with spaces, keeping offsets and line numbers
+   */
+  private blankComments(content: string): string {
+    return content.replace(/\/\*[\s\S]*?\*\/|(?<![:'"\\])\/\/[^\n]*|^\s*#(?!\[)[^\n]*/gm,
+      (comment) => comment.replace(/[^\n]/g, ' '));
+  }
+
+  /**
+   * Get the module or theme directory of a file
+   * e.g. modules/custom/my_module/src/Hook/ThemeHooks.php => modules/custom/my_module
+   */
+  private getExtensionDirectory(filePath: string): string {
+    const hookIndex = filePath.indexOf('/src/Hook/');
+    return hookIndex >= 0 ? filePath.substring(0, hookIndex) : path.dirname(filePath);
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/') || relativePath.includes('/themes/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all files that can implement hook_theme()
+   */
+  async findAllThemeHookFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg(['**/*.module', '**/*.theme', '**/src/Hook/**/*.php'], {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find theme hook files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all theme hooks
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllThemeHooks().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllThemeHookFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalThemeHook[]>(this.THEME_HOOKS_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.THEME_HOOKS_CACHE_PREFIX + file, records, this.THEME_HOOKS_TTL);
+        } else {
+          snapshot.set(this.THEME_HOOKS_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.THEME_HOOKS_CACHE_PREFIX, files);
+    }
+
+    return this.getAllThemeHooks().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (ThemeHookParser.isThemeHookFile(filePath)) {
+      getIndexSnapshot().set(this.THEME_HOOKS_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.THEME_HOOKS_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.THEME_HOOKS_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.THEME_HOOKS_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllThemeHooks(): DrupalThemeHook[] {
+    const cache = getCacheManager();
+    const allThemeHooks: DrupalThemeHook[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.THEME_HOOKS_CACHE_PREFIX + filePath;
+      const themeHooks = cache.get(cacheKey) as DrupalThemeHook[] | undefined;
+      if (themeHooks) allThemeHooks.push(...themeHooks);
+    }
+
+    return allThemeHooks;
+  }
+
+  /**
+   * Get theme hook by name
+   * Suggestions like node__article fall back to their base hook
+   */
+  getThemeHook(name: string): DrupalThemeHook | null {
+    const themeHooks = this.getAllThemeHooks();
+    let candidate = name;
+
+    while (candidate) {
+      const themeHook = themeHooks.find((h) => h.name === candidate);
+      if (themeHook) return themeHook;
+
+      const suggestionIndex = candidate.lastIndexOf('__');
+      candidate = suggestionIndex > 0 ? candidate.substring(0, suggestionIndex) : '';
+    }
+
+    return null;
+  }
+
+  /**
+   * Get theme hook rendered by a template
+   * Template suggestions like node--article--full fall back to their base template
+   */
+  getThemeHookByTemplate(template: string): DrupalThemeHook | null {
+    const themeHooks = this.getAllThemeHooks();
+    let candidate = template;
+
+    while (candidate) {
+      const themeHook = themeHooks.find((h) => path.basename(h.template) === candidate);
+      if (themeHook) return themeHook;
+
+      const suggestionIndex = candidate.lastIndexOf('--');
+      candidate = suggestionIndex > 0 ? candidate.substring(0, suggestionIndex) : '';
+    }
+
+    return null;
+  }
+
+  /**
+   * Get template variables, including those of the base hook and template_preprocess()
+   */
+  getTemplateVariables(themeHook: DrupalThemeHook): string[] {
+    const variables = new Set<string>(themeHook.variables);
+    if (themeHook.renderElement) variables.add(themeHook.renderElement);
+
+    const baseHook = themeHook.baseHook ? this.getThemeHook(themeHook.baseHook) : null;
+    if (baseHook && baseHook !== themeHook) {
+      baseHook.variables.forEach((v) => variables.add(v));
+      if (baseHook.renderElement) variables.add(baseHook.renderElement);
+    }
+
+    ThemeHookParser.DEFAULT_VARIABLES.forEach((v) => variables.add(v));
+    return [...variables];
+  }
+
+  /**
+   * Find the template file in the theme hook's template directory or its subdirectories
+   */
+  async findTemplateFile(themeHook: DrupalThemeHook): Promise<string | null> {
+    if (!fs.existsSync(themeHook.templateDirectory)) return null;
+
+    const files = await fg(`**/${themeHook.template}.html.twig`, {
+      cwd: themeHook.templateDirectory,
+      absolute: true,
+      onlyFiles: true
+    });
+
+    return files[0] ?? null;
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
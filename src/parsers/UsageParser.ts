@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { PhpRouteNameExtractor } from '../providers/php/PhpRouteNameExtractor';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalUsage {
+  type: 'service' | 'route';
+  name: string;
+  kind: 'argument' | 'parent' | 'php-call' | 'link-route' | 'appears_on';
+  sourceFile: string;
+  line: number; // Zero-based line of the reference
+  start: number; // Zero-based start character of the name
+  end: number;
+}
+
+/**
+ * Reverse index of service and route references
+ * Scans *.services.yml, *.links.*.yml and PHP files for places that use a symbol:
+ * - '@service' arguments and parent: keys in *.services.yml
+ * - route_name:, route:, base_route: and appears_on: in *.links.*.yml
+ * - \Drupal::service('...') and $container->get('...') calls in PHP
+ * - Url::fromRoute, Link::createFromRoute, ->redirect and ->setRedirect calls in PHP
+ */
+export class UsageParser {
+  private drupalResolver: DrupalProjectResolver;
+  private routeExtractor = new PhpRouteNameExtractor();
+  private scannedFiles: Set<string> = new Set();
+  private readonly USAGES_CACHE_PREFIX = 'usages:';
+  private readonly USAGES_TTL = Infinity;
+
+  static readonly PHP_EXTENSIONS = ['php', 'module', 'install', 'theme', 'inc', 'profile'];
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Check if file may contain usages we index
+   */
+  static isIndexable(filePath: string): boolean {
+    if (filePath.endsWith('.services.yml')) return true;
+    if (filePath.includes('.links.') && filePath.endsWith('.yml')) return true;
+    const extension = filePath.split('.').pop() || '';
+    return UsageParser.PHP_EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * Parse usages from file (or given content) and cache with infinite TTL
+   */
+  async parseFile(filePath: string, content?: string): Promise<DrupalUsage[]> {
+    try {
+      const text = content ?? fs.readFileSync(filePath, 'utf-8');
+      let usages: DrupalUsage[];
+      if (filePath.endsWith('.services.yml')) {
+        usages = this.parseServicesYaml(filePath, text);
+      } else if (filePath.endsWith('.yml')) {
+        usages = this.parseLinksYaml(filePath, text);
+      } else {
+        usages = this.parsePhp(filePath, text);
+      }
+
+      const cache = getCacheManager();
+      cache.set(this.USAGES_CACHE_PREFIX + filePath, usages, this.USAGES_TTL);
+
+      return usages;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Extract @service arguments and parent: references from a services file
+   */
+  private parseServicesYaml(filePath: string, text: string): DrupalUsage[] {
+    const usages: DrupalUsage[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.trim().startsWith('#')) continue;
+
+      const parentMatch = line.match(/^(\s*parent:\s*['"]?)([a-zA-Z0-9_.]+)['"]?\s*$/);
+      if (parentMatch) {
+        const start = parentMatch[1].length;
+        usages.push(this.createUsage('service', 'parent', parentMatch[2], filePath, i, start));
+      }
+
+      // '@service' and optional '@?service' references starting a scalar, not emails like 'x@example.com'
+      for (const match of line.matchAll(/(?<=(?:^\s*-|[[,])\s*|['"])@\??([a-zA-Z0-9_.]+)/g)) {
+        const start = (match.index ?? 0) + match[0].length - match[1].length;
+        usages.push(this.createUsage('service', 'argument', match[1], filePath, i, start));
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Extract route references from a links file
+   */
+  private parseLinksYaml(filePath: string, text: string): DrupalUsage[] {
+    const usages: DrupalUsage[] = [];
+    const lines = text.split('\n');
+    let inAppearsOn = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.trim().startsWith('#')) continue;
+
+      const routeMatch = line.match(/^(\s*(?:route_name|route|base_route):\s*['"]?)([a-zA-Z0-9_.]+)['"]?\s*$/);
+      if (routeMatch) {
+        const start = routeMatch[1].length;
+        usages.push(this.createUsage('route', 'link-route', routeMatch[2], filePath, i, start));
+      }
+
+      // appears_on: either a single value or a list on the following lines
+      const appearsOnMatch = line.match(/^(\s*appears_on:\s*['"]?)([a-zA-Z0-9_.]*)['"]?\s*$/);
+      if (appearsOnMatch) {
+        inAppearsOn = appearsOnMatch[2] === '';
+        if (!inAppearsOn) {
+          const start = appearsOnMatch[1].length;
+          usages.push(this.createUsage('route', 'appears_on', appearsOnMatch[2], filePath, i, start));
+        }
+        continue;
+      }
+
+      if (inAppearsOn) {
+        const listMatch = line.match(/^(\s*-\s*['"]?)([a-zA-Z0-9_.]+)['"]?\s*$/);
+        if (listMatch) {
+          const start = listMatch[1].length;
+          usages.push(this.createUsage('route', 'appears_on', listMatch[2], filePath, i, start));
+        } else if (line.trim()) {
+          inAppearsOn = false;
+        }
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Extract container calls from PHP code
+   */
+  private parsePhp(filePath: string, text: string): DrupalUsage[] {
+    const usages: DrupalUsage[] = [];
+
+    // Cheap pre-check before scanning line by line
+    if (!/service|->get|Route|[rR]edirect/.test(text)) {
+      return usages;
+    }
+
+    const patterns: Array<{ type: DrupalUsage['type']; pattern: RegExp }> = [
+      { type: 'service', pattern: /::service\s*\(\s*['"]([a-z0-9._]+)['"]/gi },
+      { type: 'service', pattern: /(?:\$this|\$container|\$this->container)->get\s*\(\s*['"]([a-z0-9._]+)['"]/gi },
+      { type: 'route', pattern: /Url::fromRoute\s*\(\s*['"]([a-z0-9._]+)['"]/gi },
+      { type: 'route', pattern: /->(?:redirect|setRedirect)\s*\(\s*['"]([a-z0-9._]+)['"]/gi }
+    ];
+
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      for (const { type, pattern } of patterns) {
+        for (const match of line.matchAll(pattern)) {
+          // Name is right before the closing quote
+          const start = (match.index ?? 0) + match[0].length - match[1].length - 1;
+          usages.push(this.createUsage(type, 'php-call', match[1], filePath, i, start));
+        }
+      }
+
+      // Link titles may contain commas, so the title argument is skipped with bracket-aware scanning
+      for (const { routeName, start } of this.routeExtractor.findLinkRoutes(line)) {
+        usages.push(this.createUsage('route', 'php-call', routeName, filePath, i, start));
+      }
+    }
+
+    return usages;
+  }
+
+  private createUsage(
+    type: DrupalUsage['type'],
+    kind: DrupalUsage['kind'],
+    name: string,
+    sourceFile: string,
+    line: number,
+    start: number
+  ): DrupalUsage {
+    return {
+      type,
+      name,
+      kind,
+      sourceFile,
+      line,
+      start,
+      end: start + name.length
+    };
+  }
+
+  /**
+   * Find all files that can contain usages
+   */
+  async findAllUsageFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg(['**/*.services.yml', '**/*.links.*.yml', `**/*.{${UsageParser.PHP_EXTENSIONS.join(',')}}`], {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find usage files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index usages in all files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllUsages().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllUsageFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalUsage[]>(this.USAGES_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.USAGES_CACHE_PREFIX + file, records, this.USAGES_TTL);
+        } else {
+          snapshot.set(this.USAGES_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.USAGES_CACHE_PREFIX, files);
+    }
+
+    return this.getAllUsages().length;
+  }
+
+  /**
+   * Handle file change event
+   * Content of open documents can be passed directly to avoid reading stale disk state
+   */
+  async handleFileChange(filePath: string, content?: string): Promise<void> {
+    this.clearCache(filePath);
+    if (UsageParser.isIndexable(filePath)) {
+      const usages = await this.parseFile(filePath, content);
+      this.scannedFiles.add(filePath);
+
+      // Records of unsaved content don't match the file on disk
+      if (content === undefined) {
+        getIndexSnapshot().set(this.USAGES_CACHE_PREFIX, filePath, usages);
+      } else {
+        getIndexSnapshot().delete(this.USAGES_CACHE_PREFIX, filePath);
+      }
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.USAGES_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.USAGES_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.USAGES_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllUsages(): DrupalUsage[] {
+    const cache = getCacheManager();
+    const allUsages: DrupalUsage[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const usages = cache.get(this.USAGES_CACHE_PREFIX + filePath) as DrupalUsage[] | undefined;
+      if (usages) allUsages.push(...usages);
+    }
+
+    return allUsages;
+  }
+
+  /**
+   * Get all usages of a symbol
+   */
+  getUsages(type: DrupalUsage['type'], name: string): DrupalUsage[] {
+    return this.getAllUsages().filter((usage) => usage.type === type && usage.name === name);
+  }
+}
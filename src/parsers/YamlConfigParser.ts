@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot, getYamlConfigSchemaParser } from '../server';
+
+export interface DrupalConfigObject {
+  name: string; // e.g. system.site
+  origin: 'install' | 'optional' | 'sync' | 'schema';
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+/**
+ * Parser for config object names
+ * Indexes config/install and config/optional files and the site's sync directory,
+ * config objects that only have a schema are added from the config schema index
+ * Uses global cache with infinite TTL for config objects
+ */
+export class YamlConfigParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private syncDirectory: string | null | undefined;
+  private readonly CONFIG_CACHE_PREFIX = 'yaml:config:';
+  private readonly CONFIG_TTL = Infinity;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Check if file is a config object, named after the file
+   */
+  isConfigFile(filePath: string): boolean {
+    if (/\/config\/(?:install|optional)\/[^/]+\.yml$/.test(filePath)) return true;
+
+    const syncDirectory = this.getSyncDirectory();
+    return !!syncDirectory && path.dirname(filePath) === syncDirectory && filePath.endsWith('.yml');
+  }
+
+  /**
+   * Index config object from file name and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalConfigObject[]> {
+    const syncDirectory = this.getSyncDirectory();
+    const origin = syncDirectory && path.dirname(filePath) === syncDirectory
+      ? 'sync'
+      : filePath.includes('/config/optional/') ? 'optional' : 'install';
+
+    const configObjects: DrupalConfigObject[] = [{
+      name: path.basename(filePath, '.yml'),
+      origin,
+      sourceFile: filePath,
+      sourceLine: '1',
+      sourceType: origin === 'sync' ? 'custom' : this.determineSourceType(filePath)
+    }];
+
+    const cache = getCacheManager();
+    const cacheKey = this.CONFIG_CACHE_PREFIX + filePath;
+    cache.set(cacheKey, configObjects, this.CONFIG_TTL);
+
+    return configObjects;
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/') || relativePath.includes('/themes/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Get the config sync directory from $settings['config_sync_directory'] in settings.php
+   * Paths are relative to the Drupal root, ../config/sync is used when no setting is found
+   */
+  getSyncDirectory(): string | null {
+    if (this.syncDirectory !== undefined) return this.syncDirectory;
+
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const candidates: string[] = [];
+
+    try {
+      const settings = fs.readFileSync(path.join(drupalRoot, 'sites/default/settings.php'), 'utf-8');
+      const match = settings.match(/^\s*\$settings\[['"]config_sync_directory['"]\]\s*=\s*['"]([^'"]+)['"]/m);
+      if (match) candidates.push(path.resolve(drupalRoot, match[1]));
+    } catch {
+      // No settings.php
+    }
+    candidates.push(path.resolve(drupalRoot, '../config/sync'));
+
+    this.syncDirectory = candidates.find((dir) => fs.existsSync(dir)) ?? null;
+    return this.syncDirectory;
+  }
+
+  /**
+   * Find all config files
+   */
+  async findAllConfigFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      const files = await fg(['**/config/install/*.yml', '**/config/optional/*.yml'], {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+
+      const syncDirectory = this.getSyncDirectory();
+      if (syncDirectory) {
+        files.push(...await fg('*.yml', { cwd: syncDirectory, absolute: true, onlyFiles: true }));
+      }
+
+      return files;
+    } catch (err) {
+      console.error('Failed to find config files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all config files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllConfigObjects().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllConfigFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalConfigObject[]>(this.CONFIG_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.CONFIG_CACHE_PREFIX + file, records, this.CONFIG_TTL);
+        } else {
+          snapshot.set(this.CONFIG_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.CONFIG_CACHE_PREFIX, files);
+    }
+
+    return this.getAllConfigObjects().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (this.isConfigFile(filePath)) {
+      getIndexSnapshot().set(this.CONFIG_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.CONFIG_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.CONFIG_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.CONFIG_CACHE_PREFIX + '*');
+    }
+  }
+
+  /**
+   * Get config objects from files, plus config_object schema types without a file
+   */
+  getAllConfigObjects(): DrupalConfigObject[] {
+    const cache = getCacheManager();
+    const allConfigObjects: DrupalConfigObject[] = [];
+    const names = new Set<string>();
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.CONFIG_CACHE_PREFIX + filePath;
+      const configObjects = cache.get(cacheKey) as DrupalConfigObject[] | undefined;
+      for (const configObject of configObjects ?? []) {
+        if (names.has(configObject.name)) continue;
+        names.add(configObject.name);
+        allConfigObjects.push(configObject);
+      }
+    }
+
+    for (const type of getYamlConfigSchemaParser()?.getAllTypes() ?? []) {
+      if (type.type !== 'config_object' || type.name.includes('*') || names.has(type.name)) continue;
+      names.add(type.name);
+      allConfigObjects.push({
+        name: type.name,
+        origin: 'schema',
+        sourceFile: type.sourceFile,
+        sourceLine: type.sourceLine,
+        sourceType: type.sourceType
+      });
+    }
+
+    return allConfigObjects;
+  }
+
+  /**
+   * Get config object by name
+   */
+  getConfigObject(name: string): DrupalConfigObject | null {
+    return this.getAllConfigObjects().find((configObject) => configObject.name === name) || null;
+  }
+
+  /**
+   * Check if a config name is known, config entities like node.type.article
+   * also match their wildcard schema type since they may only exist in active config
+   */
+  configExists(name: string): boolean {
+    return this.getConfigObject(name) !== null || getYamlConfigSchemaParser()?.getType(name) != null;
+  }
+
+  /**
+   * Read the default data of a config object, used to resolve dynamic schema types
+   */
+  getConfigData(name: string): unknown {
+    const configObject = this.getConfigObject(name);
+    if (!configObject || configObject.origin === 'schema') return {};
+
+    try {
+      return YAML.parse(fs.readFileSync(configObject.sourceFile, 'utf-8')) ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
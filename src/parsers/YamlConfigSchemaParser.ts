@@ -0,0 +1,384 @@
+import * as fs from 'fs';
+import * as YAML from 'yaml';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface ConfigSchemaElement {
+  type?: string; // Type name, may contain dynamic parts like [%parent.plugin]
+  label?: string;
+  mapping?: Record<string, ConfigSchemaElement>;
+  sequence?: ConfigSchemaElement;
+  nullable?: boolean;
+}
+
+export interface ConfigSchemaType extends ConfigSchemaElement {
+  name: string; // Top-level key, may end in wildcards, e.g. block.block.*
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+export type ConfigSchemaKind =
+  'boolean' | 'integer' | 'float' | 'string' | 'email' | 'uri' | 'mapping' | 'sequence' | 'undefined' | 'ignore';
+
+/**
+ * Schema element with its type chain merged, e.g. config_object => mapping
+ * kind is null when the chain ends in a type that isn't indexed
+ */
+export interface ResolvedConfigSchema {
+  type: string;
+  kind: ConfigSchemaKind | null;
+  label?: string;
+  mapping?: Record<string, ConfigSchemaElement>;
+  sequence?: ConfigSchemaElement;
+  nullable?: boolean;
+  definition?: ConfigSchemaType; // Named type the element resolved to
+}
+
+/**
+ * Data around an element, used to replace [%parent.plugin], [%key] and [%type] in type names
+ */
+interface ConfigDataContext {
+  key: string;
+  value: unknown;
+  type?: string;
+  parent?: ConfigDataContext;
+}
+
+/**
+ * Parser for Drupal config/schema/*.schema.yml files
+ * Indexes config schema types and resolves the schema of config data,
+ * following type inheritance, dynamic types and wildcard fallbacks
+ * Uses global cache with infinite TTL for schema definitions
+ */
+export class YamlConfigSchemaParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private typesByName: Map<string, ConfigSchemaType> | null = null;
+  private readonly SCHEMA_CACHE_PREFIX = 'yaml:config_schema:';
+  private readonly SCHEMA_TTL = Infinity;
+
+  // Types defined by a data type class rather than another type in core.data_types.schema.yml
+  private static readonly PRIMITIVE_TYPES: ConfigSchemaKind[] = [
+    'boolean', 'integer', 'float', 'string', 'email', 'uri', 'mapping', 'sequence', 'undefined', 'ignore'
+  ];
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Parse schema types from YAML file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<ConfigSchemaType[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const lineCounter = new YAML.LineCounter();
+      const parsed = YAML.parseDocument(content, { lineCounter });
+
+      const types: ConfigSchemaType[] = [];
+      const sourceType = this.determineSourceType(filePath);
+
+      if (!YAML.isMap(parsed.contents)) {
+        return [];
+      }
+
+      for (const pair of parsed.contents.items) {
+        if (!YAML.isScalar(pair.key) || !YAML.isMap(pair.value)) continue;
+
+        const line = pair.key.range ? lineCounter.linePos(pair.key.range[0]).line : 1;
+
+        types.push({
+          name: String(pair.key.value),
+          ...this.toElement(pair.value.toJSON()),
+          sourceFile: filePath,
+          sourceLine: line.toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.SCHEMA_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, types, this.SCHEMA_TTL);
+      this.typesByName = null;
+
+      return types;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep the keys of a schema definition used for resolving and validating config
+   */
+  private toElement(definition: unknown): ConfigSchemaElement {
+    if (!definition || typeof definition !== 'object') return {};
+
+    const raw = definition as Record<string, unknown>;
+    const element: ConfigSchemaElement = {};
+
+    if (typeof raw.type === 'string') element.type = raw.type;
+    if (typeof raw.label === 'string') element.label = raw.label;
+    if (raw.nullable === true) element.nullable = true;
+
+    if (raw.mapping && typeof raw.mapping === 'object' && !Array.isArray(raw.mapping)) {
+      element.mapping = {};
+      for (const [key, value] of Object.entries(raw.mapping)) {
+        element.mapping[key] = this.toElement(value);
+      }
+    }
+
+    // Older schemas wrap the sequence item definition in a list
+    const sequence = Array.isArray(raw.sequence) ? raw.sequence[0] : raw.sequence;
+    if (sequence && typeof sequence === 'object') {
+      element.sequence = this.toElement(sequence);
+    }
+
+    return element;
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/') || relativePath.includes('/themes/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all schema files
+   */
+  async findAllSchemaFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/config/schema/*.schema.yml', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find schema files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all schema files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllTypes().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllSchemaFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<ConfigSchemaType[]>(this.SCHEMA_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.SCHEMA_CACHE_PREFIX + file, records, this.SCHEMA_TTL);
+        } else {
+          snapshot.set(this.SCHEMA_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.SCHEMA_CACHE_PREFIX, files);
+      this.typesByName = null;
+    }
+
+    return this.getAllTypes().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (filePath.endsWith('.schema.yml')) {
+      getIndexSnapshot().set(this.SCHEMA_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.SCHEMA_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.SCHEMA_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.SCHEMA_CACHE_PREFIX + '*');
+    }
+    this.typesByName = null;
+  }
+
+  getAllTypes(): ConfigSchemaType[] {
+    const cache = getCacheManager();
+    const allTypes: ConfigSchemaType[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.SCHEMA_CACHE_PREFIX + filePath;
+      const types = cache.get(cacheKey) as ConfigSchemaType[] | undefined;
+      if (types) allTypes.push(...types);
+    }
+
+    return allTypes;
+  }
+
+  /**
+   * Get schema type by name, falling back to wildcard types like Drupal's TypedConfigManager
+   * e.g. block.block.main => block.block.*
+   */
+  getType(name: string): ConfigSchemaType | null {
+    if (!this.typesByName) {
+      this.typesByName = new Map(this.getAllTypes().map((type) => [type.name, type]));
+    }
+
+    const exact = this.typesByName.get(name);
+    if (exact) return exact;
+
+    let candidate = name;
+    for (;;) {
+      const replaced = candidate.replace(/([^.:]+)([.:*]*)$/, '*$2');
+      if (replaced === candidate) return null;
+
+      const type = this.typesByName.get(replaced);
+      if (type) return type;
+
+      // Collapse trailing wildcards, e.g. views.view.*.* => views.view.*
+      const oneStar = replaced.replace(/\.([:.*]*)$/, '.*');
+      const collapsed = oneStar !== replaced ? this.typesByName.get(oneStar) : undefined;
+      if (collapsed) return collapsed;
+
+      candidate = replaced;
+    }
+  }
+
+  /**
+   * Resolve the schema at a key path in config data, e.g. ['settings', 'label']
+   * An empty path resolves the config object itself, e.g. system.site
+   * Sequence items are addressed by their index or key
+   */
+  resolvePath(configName: string, data: unknown, keyPath: string[]): ResolvedConfigSchema | null {
+    let context: ConfigDataContext = { key: configName, value: data };
+    let resolved = this.resolveElement({ type: configName }, context);
+    if (!resolved.definition) return null;
+    context.type = resolved.type;
+
+    for (const key of keyPath) {
+      const child = this.getChildElement(resolved, key);
+      if (!child) return null;
+
+      const value = context.value && typeof context.value === 'object'
+        ? (context.value as Record<string, unknown>)[key]
+        : undefined;
+      context = { key, value, parent: context };
+      resolved = this.resolveElement(child, context);
+      context.type = resolved.type;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get the element describing a key of resolved mapping or sequence data
+   */
+  getChildElement(resolved: ResolvedConfigSchema, key: string): ConfigSchemaElement | null {
+    if (resolved.mapping && resolved.mapping[key]) return resolved.mapping[key];
+    if (resolved.kind === 'sequence' && resolved.sequence) return resolved.sequence;
+    return null;
+  }
+
+  /**
+   * Follow the type chain of an element, merging mappings and keeping the most specific label
+   */
+  private resolveElement(element: ConfigSchemaElement, context: ConfigDataContext): ResolvedConfigSchema {
+    const typeName = this.replaceDynamicType(element.type ?? 'undefined', context);
+    const resolved: ResolvedConfigSchema = {
+      type: typeName,
+      kind: null,
+      label: element.label,
+      mapping: element.mapping ? { ...element.mapping } : undefined,
+      sequence: element.sequence,
+      nullable: element.nullable
+    };
+
+    let current: string | undefined = typeName;
+    const visited = new Set<string>();
+
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const definition = this.getType(current);
+
+      if (!definition) {
+        // Without core indexed, primitives still resolve
+        const primitive = YamlConfigSchemaParser.PRIMITIVE_TYPES.find((p) => p === current);
+        resolved.kind = primitive ?? null;
+        break;
+      }
+
+      if (!resolved.definition) {
+        resolved.definition = definition;
+        resolved.type = definition.name;
+      }
+      resolved.label ??= definition.label;
+      resolved.sequence ??= definition.sequence;
+      if (definition.mapping) resolved.mapping = { ...definition.mapping, ...resolved.mapping };
+
+      if (!definition.type) {
+        resolved.kind = YamlConfigSchemaParser.PRIMITIVE_TYPES.find((p) => p === definition.name) ?? null;
+        break;
+      }
+
+      current = this.replaceDynamicType(definition.type, context);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Replace [...] parts of a type name with config data
+   * e.g. block.settings.[%parent.plugin] => block.settings.system_branding_block
+   * Unresolvable parts become * so the wildcard type is used
+   */
+  private replaceDynamicType(type: string, context: ConfigDataContext): string {
+    return type.replace(/\[([^\]]*)\]/g, (_match, expression: string) => {
+      let current: ConfigDataContext | undefined = context;
+      let data: unknown;
+      let inData = false;
+
+      for (const part of expression.split('.')) {
+        if (!inData) {
+          if (part === '%parent') {
+            current = current?.parent;
+            if (!current) return '*';
+            continue;
+          }
+          if (part === '%key') return current?.key ?? '*';
+          if (part === '%type') return current?.type ?? '*';
+
+          data = current?.value;
+          inData = true;
+        }
+
+        if (!data || typeof data !== 'object' || !(part in data)) return '*';
+        data = (data as Record<string, unknown>)[part];
+      }
+
+      return typeof data === 'string' || typeof data === 'number' ? String(data) : '*';
+    });
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
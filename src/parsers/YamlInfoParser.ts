@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalExtension {
+  machineName: string; // File name without .info.yml, e.g. node
+  name?: string;
+  type?: string; // module, theme or profile
+  project: string; // drupal for core, otherwise the project key or directory
+  description?: string;
+  package?: string;
+  coreVersionRequirement?: string;
+  configure?: string;
+  baseTheme?: string | false;
+  dependencies: string[];
+  libraries: string[];
+  regions: Record<string, string>;
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+interface YamlInfoDefinition {
+  name?: string;
+  type?: string;
+  project?: string;
+  description?: string;
+  package?: string;
+  core_version_requirement?: string;
+  configure?: string;
+  'base theme'?: string | false;
+  dependencies?: unknown[];
+  libraries?: unknown[];
+  regions?: Record<string, unknown>;
+}
+
+/**
+ * Parser for Drupal *.info.yml files
+ * Indexes modules, themes and profiles with their metadata
+ * Uses global cache with infinite TTL for extension definitions
+ */
+export class YamlInfoParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private readonly INFO_CACHE_PREFIX = 'yaml:info:';
+  private readonly INFO_TTL = Infinity;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Parse extension from info file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalExtension[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const info = (YAML.parse(content) || {}) as YamlInfoDefinition;
+      const sourceType = this.determineSourceType(filePath);
+      const machineName = path.basename(filePath, '.info.yml');
+
+      const strings = (values: unknown[] | undefined) =>
+        (Array.isArray(values) ? values : []).filter((v): v is string => typeof v === 'string');
+
+      const regions: Record<string, string> = {};
+      if (info.regions && typeof info.regions === 'object') {
+        for (const [region, label] of Object.entries(info.regions)) {
+          regions[region] = String(label);
+        }
+      }
+
+      const extensions: DrupalExtension[] = [{
+        machineName,
+        name: info.name,
+        type: info.type,
+        project: sourceType === 'core' ? 'drupal' : info.project ?? this.getProjectDirectory(filePath, machineName),
+        description: info.description,
+        package: info.package,
+        coreVersionRequirement: info.core_version_requirement,
+        configure: info.configure,
+        baseTheme: info['base theme'],
+        dependencies: strings(info.dependencies),
+        libraries: strings(info.libraries),
+        regions,
+        sourceFile: filePath,
+        sourceLine: '1',
+        sourceType
+      }];
+
+      const cache = getCacheManager();
+      const cacheKey = this.INFO_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, extensions, this.INFO_TTL);
+
+      return extensions;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Get project name from the directory right below modules/, themes/ or profiles/
+   * e.g. modules/contrib/webform/modules/webform_ui => webform
+   */
+  private getProjectDirectory(filePath: string, machineName: string): string {
+    const relativePath = filePath.replace(this.drupalResolver.getDrupalRootAbsolute(), '');
+    const match = relativePath.match(/\/(?:modules|themes|profiles)\/(?:contrib\/|custom\/)?([^/]+)\//);
+    return match ? match[1] : machineName;
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/') || relativePath.includes('/themes/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all info files
+   */
+  async findAllInfoFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/*.info.yml', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find info files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all info files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllExtensions().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllInfoFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalExtension[]>(this.INFO_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.INFO_CACHE_PREFIX + file, records, this.INFO_TTL);
+        } else {
+          snapshot.set(this.INFO_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.INFO_CACHE_PREFIX, files);
+    }
+
+    return this.getAllExtensions().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (filePath.endsWith('.info.yml')) {
+      getIndexSnapshot().set(this.INFO_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.INFO_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.INFO_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.INFO_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllExtensions(): DrupalExtension[] {
+    const cache = getCacheManager();
+    const allExtensions: DrupalExtension[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.INFO_CACHE_PREFIX + filePath;
+      const extensions = cache.get(cacheKey) as DrupalExtension[] | undefined;
+      if (extensions) allExtensions.push(...extensions);
+    }
+
+    return allExtensions;
+  }
+
+  /**
+   * Get module, theme or profile by machine name
+   */
+  getExtension(machineName: string): DrupalExtension | null {
+    return this.getAllExtensions().find((e) => e.machineName === machineName) || null;
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalLibrary {
+  id: string; // Extension and library name, e.g. core/drupal.dialog
+  extension: string;
+  name: string;
+  version?: string;
+  css: string[];
+  js: string[];
+  dependencies: string[];
+  sourceFile: string;
+  sourceLine: string;
+  sourceType: 'core' | 'contrib' | 'custom';
+}
+
+interface YamlLibraryDefinition {
+  version?: unknown;
+  css?: Record<string, unknown>;
+  js?: Record<string, unknown>;
+  dependencies?: unknown[];
+}
+
+/**
+ * Parser for Drupal *.libraries.yml files
+ * Indexes asset libraries with their CSS/JS files and dependencies
+ * Uses global cache with infinite TTL for library definitions
+ */
+export class YamlLibraryParser {
+  private drupalResolver: DrupalProjectResolver;
+  private scannedFiles: Set<string> = new Set();
+  private readonly LIBRARIES_CACHE_PREFIX = 'yaml:libraries:';
+  private readonly LIBRARIES_TTL = Infinity;
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+  }
+
+  /**
+   * Parse libraries from YAML file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalLibrary[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const lineCounter = new YAML.LineCounter();
+      const parsed = YAML.parseDocument(content, { lineCounter });
+
+      const libraries: DrupalLibrary[] = [];
+      const sourceType = this.determineSourceType(filePath);
+      const extension = path.basename(filePath, '.libraries.yml');
+
+      if (!YAML.isMap(parsed.contents)) {
+        return [];
+      }
+
+      for (const pair of parsed.contents.items) {
+        if (!YAML.isScalar(pair.key) || !YAML.isMap(pair.value)) continue;
+
+        const name = String(pair.key.value);
+        const definition = pair.value.toJSON() as YamlLibraryDefinition;
+        const line = pair.key.range ? lineCounter.linePos(pair.key.range[0]).line : 1;
+
+        // CSS files are grouped by SMACSS category (base, layout, component, state, theme)
+        const css = Object.values(definition.css ?? {})
+          .flatMap((files) => (files && typeof files === 'object' ? Object.keys(files) : []));
+
+        libraries.push({
+          id: `${extension}/${name}`,
+          extension,
+          name,
+          version: definition.version !== undefined ? String(definition.version) : undefined,
+          css,
+          js: Object.keys(definition.js ?? {}),
+          dependencies: (Array.isArray(definition.dependencies) ? definition.dependencies : [])
+            .filter((d): d is string => typeof d === 'string'),
+          sourceFile: filePath,
+          sourceLine: line.toString(),
+          sourceType
+        });
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.LIBRARIES_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, libraries, this.LIBRARIES_TTL);
+
+      return libraries;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/') || relativePath.includes('/themes/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all libraries files
+   */
+  async findAllLibraryFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/*.libraries.yml', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find libraries files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all libraries files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.getAllLibraries().length > 0;
+
+    if (!hasCache) {
+      const files = await this.findAllLibraryFiles();
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalLibrary[]>(this.LIBRARIES_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.LIBRARIES_CACHE_PREFIX + file, records, this.LIBRARIES_TTL);
+        } else {
+          snapshot.set(this.LIBRARIES_CACHE_PREFIX, file, await this.parseFile(file));
+        }
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+      snapshot.retain(this.LIBRARIES_CACHE_PREFIX, files);
+    }
+
+    return this.getAllLibraries().length;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (filePath.endsWith('.libraries.yml')) {
+      getIndexSnapshot().set(this.LIBRARIES_CACHE_PREFIX, filePath, await this.parseFile(filePath));
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.LIBRARIES_CACHE_PREFIX, filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.LIBRARIES_CACHE_PREFIX + filePath);
+    } else {
+      cache.clearPattern(this.LIBRARIES_CACHE_PREFIX + '*');
+    }
+  }
+
+  getAllLibraries(): DrupalLibrary[] {
+    const cache = getCacheManager();
+    const allLibraries: DrupalLibrary[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.LIBRARIES_CACHE_PREFIX + filePath;
+      const libraries = cache.get(cacheKey) as DrupalLibrary[] | undefined;
+      if (libraries) allLibraries.push(...libraries);
+    }
+
+    return allLibraries;
+  }
+
+  /**
+   * Get library by its extension/name ID
+   */
+  getLibrary(id: string): DrupalLibrary | null {
+    return this.getAllLibraries().find((library) => library.id === id) || null;
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
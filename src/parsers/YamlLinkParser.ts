@@ -2,7 +2,8 @@ import * as fs from 'fs';
 import * as YAML from 'yaml';
 import fg from 'fast-glob';
 import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
-import { getCacheManager } from '../server';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
 
 export interface DrupalLink {
   name: string;
@@ -142,15 +143,25 @@ export class YamlLinkParser {
     }
   }
 
-  async scanAndIndex(): Promise<number> {
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
     const hasCache = this.scannedFiles.size > 0 && this.hasCachedLinks();
 
     if (!hasCache) {
       const files = await this.findAllLinksFiles();
-      for (const file of files) {
-        await this.parseFile(file);
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalLink[]>(this.LINKS_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.LINKS_CACHE_PREFIX + file, records, this.LINKS_TTL);
+        } else {
+          snapshot.set(this.LINKS_CACHE_PREFIX, file, await this.parseFile(file));
+        }
         this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
       }
+      snapshot.retain(this.LINKS_CACHE_PREFIX, files);
     }
 
     return this.getAllLinks().length;
@@ -163,7 +174,7 @@ export class YamlLinkParser {
   async handleFileChange(filePath: string): Promise<void> {
     this.clearCache(filePath);
     if (filePath.includes('.links.')) {
-      await this.parseFile(filePath);
+      getIndexSnapshot().set(this.LINKS_CACHE_PREFIX, filePath, await this.parseFile(filePath));
       this.scannedFiles.add(filePath);
     }
   }
@@ -171,6 +182,7 @@ export class YamlLinkParser {
   handleFileDelete(filePath: string): void {
     this.clearCache(filePath);
     this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.LINKS_CACHE_PREFIX, filePath);
   }
 
   clearCache(filePath?: string): void {
@@ -0,0 +1,376 @@
+import * as fs from 'fs';
+import * as YAML from 'yaml';
+import fg from 'fast-glob';
+import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { BaseClassResolver } from '../providers/base/BaseClassResolver';
+import { getCacheManager } from '../server';
+
+export interface DrupalPermission {
+  name: string;
+  title?: string;
+  description?: string;
+  restrictAccess?: boolean;
+  callback?: string; // Set for permissions generated by a permission_callbacks entry
+  pattern?: string; // Regex source for generated permissions with dynamic parts
+  sourceFile?: string;
+  sourceLine?: string;
+  sourceType?: 'core' | 'contrib' | 'custom';
+}
+
+export interface UnresolvedPermissionCallback {
+  callback: string;
+  patterns: string[]; // Regex sources built from interpolated or concatenated strings in the callback
+}
+
+interface YamlPair {
+  key?: {
+    value: string;
+    range?: [number, number];
+  };
+  value: YAML.Node | unknown;
+}
+
+interface YamlPermissionsNode {
+  items?: YamlPair[];
+}
+
+/**
+ * Parser for Drupal YAML permission files
+ * Uses global cache with infinite TTL for permission definitions
+ * Scans for *.permissions.yml files, including permission_callbacks
+ */
+export class YamlPermissionParser {
+  private drupalResolver: DrupalProjectResolver;
+  private classResolver: BaseClassResolver;
+  private scannedFiles: Set<string> = new Set();
+  private unresolvedCallbacks: Map<string, UnresolvedPermissionCallback[]> = new Map(); // Callbacks without literal keys, by file
+  private readonly PERMISSIONS_CACHE_PREFIX = 'yaml:permissions:';
+  private readonly PERMISSIONS_TTL = Infinity;
+
+  // Keys used inside permission definitions returned by callbacks
+  private static readonly DEFINITION_KEYS = [
+    'title', 'description', 'restrict access', 'warning', 'dependencies', 'provider'
+  ];
+
+  constructor(drupalResolver: DrupalProjectResolver) {
+    this.drupalResolver = drupalResolver;
+    this.classResolver = new BaseClassResolver(drupalResolver.getDrupalRootAbsolute());
+  }
+
+  /**
+   * Parse permissions from YAML file and cache with infinite TTL
+   */
+  async parseFile(filePath: string): Promise<DrupalPermission[]> {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const lineCounter = new YAML.LineCounter();
+      const parsed = YAML.parseDocument(content, { lineCounter });
+
+      const permissions: DrupalPermission[] = [];
+      const unresolved: UnresolvedPermissionCallback[] = [];
+      const sourceType = this.determineSourceType(filePath);
+
+      const yamlNode = parsed.contents as YamlPermissionsNode;
+      if (!yamlNode || !yamlNode.items) {
+        return [];
+      }
+
+      for (const pair of yamlNode.items) {
+        const name = pair.key?.value;
+        const definition = pair.value;
+
+        if (!name || !definition) continue;
+
+        let lineNumber: number | undefined;
+        if (pair.key?.range) {
+          const pos = lineCounter.linePos(pair.key.range[0]);
+          lineNumber = pos.line;
+        }
+
+        let defObj: unknown = {};
+        if (definition && typeof definition === 'object' && 'toJSON' in definition) {
+          defObj = (definition as YAML.Node).toJSON();
+        }
+
+        // Callbacks generate permissions dynamically
+        if (name === 'permission_callbacks') {
+          if (Array.isArray(defObj)) {
+            for (const callback of defObj) {
+              if (typeof callback !== 'string') continue;
+
+              const { permissions: generated, patterns } = this.parseCallback(callback, sourceType);
+              if (generated.length === 0) unresolved.push({ callback, patterns });
+              permissions.push(...generated);
+            }
+          }
+          continue;
+        }
+
+        if (defObj && typeof defObj === 'object') {
+          const permission = defObj as {
+            title?: string;
+            description?: string;
+            'restrict access'?: boolean;
+          };
+
+          permissions.push({
+            name,
+            title: permission.title,
+            description: permission.description,
+            restrictAccess: permission['restrict access'],
+            sourceFile: filePath,
+            sourceType: sourceType,
+            sourceLine: lineNumber?.toString()
+          });
+        }
+      }
+
+      const cache = getCacheManager();
+      const cacheKey = this.PERMISSIONS_CACHE_PREFIX + filePath;
+      cache.set(cacheKey, permissions, this.PERMISSIONS_TTL);
+      this.unresolvedCallbacks.set(filePath, unresolved);
+
+      return permissions;
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+
+  /**
+   * Extract permission names from a Class::method permission callback
+   * Follows $this->helper() calls and [$this, 'helper'] callables into the class, its parents and traits
+   * Literal keys become permissions, keys with variables become patterns
+   * e.g. "create $type_id content" => /^create .+ content$/
+   * Other interpolated or concatenated strings are returned as patterns the callback may generate
+   */
+  private parseCallback(
+    callback: string,
+    sourceType: DrupalPermission['sourceType']
+  ): { permissions: DrupalPermission[]; patterns: string[] } {
+    const permissions: DrupalPermission[] = [];
+    const patterns = new Set<string>();
+
+    const [className, methodName] = callback.replace(/^\\/, '').split('::');
+    // The method name ends up in a regex, so it must be a plain identifier
+    if (!className || !methodName || !/^\w+$/.test(methodName)) return { permissions, patterns: [] };
+
+    const seen = new Set<string>();
+    const visited = new Set<string>();
+    const queue = [methodName];
+
+    // Array keys: ['perm' => ...] and $perms['perm'] = ...
+    const keyPatterns = [
+      /(?:^|[[(,])\s*(['"])((?:(?!\1)[^\n])+)\1\s*=>/gm,
+      /\$\w+\[\s*(['"])((?:(?!\1)[^\n])+)\1\s*\]\s*=/g
+    ];
+
+    while (queue.length > 0 && visited.size < 20) {
+      const name = queue.shift() as string;
+      if (visited.has(name)) continue;
+      visited.add(name);
+
+      const method = this.classResolver.findMethod(className, name);
+      if (!method) continue;
+
+      const content = fs.readFileSync(method.filePath, 'utf-8');
+      const body = this.extractMethodBody(content, name);
+      if (body === null) continue;
+
+      const lineOffset = content.substring(0, content.indexOf(body)).split('\n').length;
+
+      for (const pattern of keyPatterns) {
+        for (const match of body.matchAll(pattern)) {
+          const key = match[2];
+          if (seen.has(key) || YamlPermissionParser.DEFINITION_KEYS.includes(key) || /^[%@:]/.test(key)) {
+            continue;
+          }
+          seen.add(key);
+
+          const keyIndex = (match.index ?? 0) + match[0].indexOf(match[1] + key);
+          const line = lineOffset + body.substring(0, keyIndex).split('\n').length - 1;
+          const isDynamic = match[1] === '"' && /\$/.test(key);
+
+          permissions.push({
+            name: key,
+            callback,
+            pattern: isDynamic ? this.buildPattern(key) : undefined,
+            sourceFile: method.filePath,
+            sourceType: sourceType,
+            sourceLine: line.toString()
+          });
+        }
+      }
+
+      // Strings with variables, e.g. "use $format text" or 'administer ' . $type
+      const templates = body.matchAll(/"((?:[^"\\\n]|\\.)*\$(?:[^"\\\n]|\\.)*)"|(['"])([^'"\n]+)\2\s*\.\s*\$/g);
+      for (const template of templates) {
+        const pattern = template[1] !== undefined ? this.buildPattern(template[1]) : '^' + this.escapePattern(template[3]) + '.+$';
+        // Patterns without literal words would match any permission
+        if (/[a-z]{3}/i.test(pattern)) patterns.add(pattern);
+      }
+
+      // Helpers building the permissions, e.g. $this->buildPermissions($type) or [$this, 'buildPermissions']
+      for (const call of body.matchAll(/(?:\$this->|self::|static::)(\w+)\s*\(|\[\s*\$this\s*,\s*['"](\w+)['"]\s*\]/g)) {
+        queue.push(call[1] ?? call[2]);
+      }
+    }
+
+    return { permissions, patterns: [...patterns] };
+  }
+
+  /**
+   * Get method body (between braces) from PHP class source
+   */
+  private extractMethodBody(content: string, methodName: string): string | null {
+    const methodMatch = new RegExp(`function\\s+${methodName}\\s*\\(`).exec(content);
+    if (!methodMatch) return null;
+
+    const open = content.indexOf('{', methodMatch.index);
+    if (open < 0) return null;
+
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+      if (content[i] === '{') depth++;
+      if (content[i] === '}') depth--;
+      if (depth === 0) return content.substring(open, i + 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert interpolated PHP string to regex source
+   */
+  private buildPattern(name: string): string {
+    const parts = name.split(/\{\$[^}]+\}|\$[a-zA-Z_][\w]*(?:->\w+|\[[^\]]*\])*/);
+    return '^' + parts.map((part) => this.escapePattern(part)).join('.+') + '$';
+  }
+
+  private escapePattern(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private determineSourceType(filePath: string): 'core' | 'contrib' | 'custom' {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    const relativePath = filePath.replace(drupalRoot, '');
+
+    if (relativePath.includes('/core/')) return 'core';
+    if (relativePath.includes('/modules/custom/')) return 'custom';
+    return 'contrib';
+  }
+
+  /**
+   * Find all permission YAML files
+   */
+  async findAllPermissionFiles(): Promise<string[]> {
+    const drupalRoot = this.drupalResolver.getDrupalRootAbsolute();
+    if (!fs.existsSync(drupalRoot)) return [];
+
+    try {
+      return await fg('**/*.permissions.yml', {
+        cwd: drupalRoot,
+        absolute: true,
+        onlyFiles: true,
+        ignore: ['**/node_modules/**', '**/vendor/**', '**/tests/**', '**/test/**']
+      });
+    } catch (err) {
+      console.error('Failed to find permission files:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Scan and index all permission files
+   */
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
+    const hasCache = this.scannedFiles.size > 0 && this.hasCachedPermissions();
+
+    if (!hasCache) {
+      const files = await this.findAllPermissionFiles();
+      for (const [index, file] of files.entries()) {
+        await this.parseFile(file);
+        this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
+      }
+    }
+
+    return this.getAllPermissions().length;
+  }
+
+  private hasCachedPermissions(): boolean {
+    return this.getAllPermissions().length > 0;
+  }
+
+  async handleFileChange(filePath: string): Promise<void> {
+    this.clearCache(filePath);
+    if (filePath.endsWith('.permissions.yml')) {
+      await this.parseFile(filePath);
+      this.scannedFiles.add(filePath);
+    }
+  }
+
+  handleFileDelete(filePath: string): void {
+    this.clearCache(filePath);
+    this.scannedFiles.delete(filePath);
+  }
+
+  clearCache(filePath?: string): void {
+    const cache = getCacheManager();
+    if (filePath) {
+      cache.delete(this.PERMISSIONS_CACHE_PREFIX + filePath);
+      this.unresolvedCallbacks.delete(filePath);
+    } else {
+      cache.clearPattern(this.PERMISSIONS_CACHE_PREFIX + '*');
+      this.unresolvedCallbacks.clear();
+    }
+  }
+
+  /**
+   * Get permission callbacks whose keys couldn't be read
+   */
+  getUnresolvedCallbacks(): UnresolvedPermissionCallback[] {
+    return [...this.unresolvedCallbacks.values()].flat();
+  }
+
+  /**
+   * Check if a callback whose keys couldn't be read may generate the permission, going by the strings it builds
+   */
+  isGeneratedByUnresolvedCallback(permissionName: string): boolean {
+    return this.getUnresolvedCallbacks().some((c) => c.patterns.some((pattern) => new RegExp(pattern).test(permissionName)));
+  }
+
+  getAllPermissionNames(): string[] {
+    return this.getAllPermissions().map((p) => p.name);
+  }
+
+  getAllPermissions(): DrupalPermission[] {
+    const cache = getCacheManager();
+    const allPermissions: DrupalPermission[] = [];
+
+    for (const filePath of this.scannedFiles) {
+      const cacheKey = this.PERMISSIONS_CACHE_PREFIX + filePath;
+      const permissions = cache.get(cacheKey) as DrupalPermission[] | undefined;
+      if (permissions) allPermissions.push(...permissions);
+    }
+
+    return allPermissions;
+  }
+
+  /**
+   * Get permission by name, including permissions matched by a callback pattern
+   */
+  getPermission(permissionName: string): DrupalPermission | null {
+    const permissions = this.getAllPermissions();
+
+    const exact = permissions.find((p) => p.name === permissionName && !p.pattern);
+    if (exact) return exact;
+
+    return permissions.find((p) => p.pattern && new RegExp(p.pattern).test(permissionName)) || null;
+  }
+
+  getDrupalRoot(): string {
+    return this.drupalResolver.getDrupalRootAbsolute();
+  }
+}
@@ -2,8 +2,10 @@ import * as fs from 'fs';
 import * as YAML from 'yaml';
 import fg from 'fast-glob';
 import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
-import { getCacheManager } from '../server';
-import { getCommonEntityRoutes } from './CommonEntityRoutes';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+import { getCommonRoutes } from './CommonRoutes';
+import { EntityTypeParser } from './EntityTypeParser';
 
 export interface DrupalRoute {
   name: string;
@@ -20,6 +22,7 @@ export interface DrupalRoute {
     _access?: string;
     [key: string]: unknown;
   };
+  entityType?: string; // Set for routes generated from an entity type's link templates
   sourceFile?: string;
   sourceLine?: string;
   sourceType?: 'core' | 'contrib' | 'custom';
@@ -40,16 +43,18 @@ interface YamlRoutesNode {
 /**
  * Parser for Drupal YAML routing files
  * Uses global cache with infinite TTL for route definitions
- * Scans for *.routing.yml files
+ * Scans for *.routing.yml files and entity types with a route provider
  */
 export class YamlRouteParser {
   private drupalResolver: DrupalProjectResolver;
+  private entityTypeParser: EntityTypeParser;
   private scannedFiles: Set<string> = new Set();
   private readonly ROUTES_CACHE_PREFIX = 'yaml:routes:';
   private readonly ROUTES_TTL = Infinity;
 
   constructor(drupalResolver: DrupalProjectResolver) {
     this.drupalResolver = drupalResolver;
+    this.entityTypeParser = new EntityTypeParser(drupalResolver);
   }
 
   /**
@@ -117,6 +122,21 @@ export class YamlRouteParser {
     }
   }
 
+  /**
+   * Check if file can define routes
+   */
+  static isRouteSource(filePath: string): boolean {
+    return filePath.endsWith('.routing.yml') || EntityTypeParser.isEntityTypeFile(filePath);
+  }
+
+  /**
+   * Extract {slug} placeholders from a route path
+   */
+  static extractPathParameters(path?: string): string[] {
+    if (!path) return [];
+    return Array.from(path.matchAll(/\{([a-zA-Z0-9_]+)\}/g), (match) => match[1]);
+  }
+
   /**
    * Determine if a service file is core, contrib, or custom
    */
@@ -150,17 +170,28 @@ export class YamlRouteParser {
   }
 
   /**
-   * Scan and index all routing files
+   * Scan and index all routing files and entity types
    */
-  async scanAndIndex(): Promise<number> {
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
     const hasCache = this.scannedFiles.size > 0 && this.hasCachedRoutes();
 
     if (!hasCache) {
       const files = await this.findAllRoutingFiles();
-      for (const file of files) {
-        await this.parseFile(file);
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalRoute[]>(this.ROUTES_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.ROUTES_CACHE_PREFIX + file, records, this.ROUTES_TTL);
+        } else {
+          snapshot.set(this.ROUTES_CACHE_PREFIX, file, await this.parseFile(file));
+        }
         this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
       }
+      snapshot.retain(this.ROUTES_CACHE_PREFIX, files);
+      await this.entityTypeParser.scanAndIndex();
     }
 
     return this.getAllRoutes().length;
@@ -171,16 +202,27 @@ export class YamlRouteParser {
   }
 
   async handleFileChange(filePath: string): Promise<void> {
+    if (EntityTypeParser.isEntityTypeFile(filePath)) {
+      await this.entityTypeParser.handleFileChange(filePath);
+      return;
+    }
+
     this.clearCache(filePath);
     if (filePath.endsWith('.routing.yml')) {
-      await this.parseFile(filePath);
+      getIndexSnapshot().set(this.ROUTES_CACHE_PREFIX, filePath, await this.parseFile(filePath));
       this.scannedFiles.add(filePath);
     }
   }
 
   handleFileDelete(filePath: string): void {
+    if (EntityTypeParser.isEntityTypeFile(filePath)) {
+      this.entityTypeParser.handleFileDelete(filePath);
+      return;
+    }
+
     this.clearCache(filePath);
     this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.ROUTES_CACHE_PREFIX, filePath);
   }
 
   clearCache(filePath?: string): void {
@@ -189,12 +231,13 @@ export class YamlRouteParser {
       cache.delete(this.ROUTES_CACHE_PREFIX + filePath);
     } else {
       cache.clearPattern(this.ROUTES_CACHE_PREFIX + '*');
+      this.entityTypeParser.clearCache();
     }
   }
 
   getAllRouteNames(): string[] {
     const routes = this.getAllRoutes().map((r) => r.name);
-    const commonRoutes = getCommonEntityRoutes();
+    const commonRoutes = getCommonRoutes();
     // Combine and deduplicate
     return [...new Set([...routes, ...commonRoutes])];
   }
@@ -210,11 +253,21 @@ export class YamlRouteParser {
       if (routes) allRoutes.push(...routes);
     }
 
-    // Add common entity routes
-    const commonRouteNames = getCommonEntityRoutes();
+    // Add routes generated from entity link templates
+    // Routes declared in .routing.yml take precedence
+    const routeNames = new Set(allRoutes.map((r) => r.name));
+    for (const route of this.entityTypeParser.getAllEntityRoutes()) {
+      if (!routeNames.has(route.name)) {
+        routeNames.add(route.name);
+        allRoutes.push(route);
+      }
+    }
+
+    // Add common routes
+    const commonRouteNames = getCommonRoutes();
     for (const routeName of commonRouteNames) {
       // Only add if not already in the list (avoid duplicates)
-      if (!allRoutes.find((r) => r.name === routeName)) {
+      if (!routeNames.has(routeName)) {
         allRoutes.push({
           name: routeName,
           sourceType: 'core'
@@ -225,6 +278,13 @@ export class YamlRouteParser {
     return allRoutes;
   }
 
+  /**
+   * Get route by name from cache
+   */
+  getRoute(routeName: string): DrupalRoute | null {
+    return this.getAllRoutes().find((r) => r.name === routeName) || null;
+  }
+
   getDrupalRoot(): string {
     return this.drupalResolver.getDrupalRootAbsolute();
   }
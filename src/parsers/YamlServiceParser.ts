@@ -2,14 +2,26 @@ import * as fs from 'fs';
 import * as YAML from 'yaml';
 import fg from 'fast-glob';
 import { DrupalProjectResolver } from '../utils/DrupalProjectResolver';
-import { getCacheManager } from '../server';
+import { IndexProgressCallback } from '../types/IndexProgress';
+import { getCacheManager, getIndexSnapshot } from '../server';
+
+export interface DrupalServiceTag {
+  name: string;
+  attributes: Record<string, unknown>; // Other tag keys, e.g. priority or applies_to
+}
 
 export interface DrupalService {
   name: string;
-  class?: string;
+  class?: string; // Services keyed by class name default to the key
   parent?: string;
+  alias?: string; // Target service ID, e.g. Drupal\Core\Messenger\MessengerInterface: '@messenger'
+  decorates?: string;
+  decorationInnerName?: string; // ID of the decorated service inside the decorator, defaults to <name>.inner
+  decorationPriority?: number;
+  autowire?: boolean; // Set on the service or inherited from _defaults
   arguments?: string[];
   factory?: string | string[];
+  tags?: DrupalServiceTag[];
   sourceFile?: string; // Path to .services.yml file
   sourceLine?: string;
   sourceType?: 'core' | 'contrib' | 'custom'; // Service origin
@@ -20,7 +32,12 @@ interface YamlServiceDefinition {
   parent?: string;
   arguments?: unknown[];
   factory?: string | string[];
+  tags?: unknown[];
   alias?: string;
+  decorates?: string;
+  decoration_inner_name?: string;
+  decoration_priority?: number;
+  autowire?: boolean;
   [key: string]: unknown;
 }
 
@@ -67,14 +84,19 @@ export class YamlServiceParser {
 
       const services: DrupalService[] = [];
       const sourceType = this.determineSourceType(filePath);
+      const yamlNode = servicesNode as YamlServicesNode;
+
+      // Defaults for all services in the file, e.g. _defaults: { autowire: true }
+      const defaults = yamlNode.items?.find((pair) => pair.key?.value === '_defaults')?.value;
+      const defaultAutowire = YAML.isMap(defaults) && defaults.get('autowire') === true;
 
       // Iterate over service definitions
-      const yamlNode = servicesNode as YamlServicesNode;
       for (const pair of yamlNode.items || []) {
         const name = pair.key?.value;
         const definition = pair.value;
 
-        if (!name || !definition) continue;
+        // Skip _defaults and _instanceof, they are not services
+        if (!name || !definition || name.startsWith('_')) continue;
 
         // Get line number from YAML node
         let lineNumber: number | undefined;
@@ -83,27 +105,34 @@ export class YamlServiceParser {
           lineNumber = pos.line;
         }
 
-        // Handle both object definitions and aliases
+        // Handle object definitions, '@service' aliases and empty definitions like Foo\Bar: ~
         let defObj: YamlServiceDefinition = {};
-        if (typeof definition === 'string') {
-          defObj = { alias: definition };
-        } else if (definition && typeof definition === 'object' && 'toJSON' in definition) {
-          const json = (definition as YAML.Node).toJSON();
+        const json = typeof definition === 'string' ? definition : (definition as YAML.Node).toJSON();
+        if (typeof json === 'string') {
+          defObj = { alias: json };
+        } else if (json && typeof json === 'object') {
           defObj = json as YamlServiceDefinition;
         }
 
-        if (defObj) {
-          services.push({
-            name,
-            class: defObj.class,
-            parent: defObj.parent,
-            arguments: defObj.arguments as string[] | undefined,
-            factory: defObj.factory,
-            sourceFile: filePath,
-            sourceType: sourceType,
-            sourceLine: lineNumber?.toString()
-          });
-        }
+        const alias = typeof defObj.alias === 'string' ? defObj.alias.replace(/^@/, '') : undefined;
+        const isClassName = /^\\?[A-Za-z_][\w\\]*\\\w+$/.test(name);
+
+        services.push({
+          name,
+          class: defObj.class ?? (!alias && !defObj.parent && isClassName ? name.replace(/^\\/, '') : undefined),
+          parent: defObj.parent,
+          alias,
+          decorates: defObj.decorates,
+          decorationInnerName: defObj.decoration_inner_name,
+          decorationPriority: defObj.decoration_priority,
+          autowire: alias ? undefined : defObj.autowire ?? defaultAutowire,
+          arguments: defObj.arguments as string[] | undefined,
+          factory: defObj.factory,
+          tags: this.normalizeTags(defObj.tags),
+          sourceFile: filePath,
+          sourceType: sourceType,
+          sourceLine: lineNumber?.toString()
+        });
       }
 
       // Cache with infinite TTL
@@ -119,6 +148,25 @@ export class YamlServiceParser {
     }
   }
 
+  /**
+   * Normalize tags, which may be written as { name: event_subscriber } or just event_subscriber
+   */
+  private normalizeTags(tags: unknown[] | undefined): DrupalServiceTag[] | undefined {
+    if (!Array.isArray(tags)) return undefined;
+
+    const normalized: DrupalServiceTag[] = [];
+    for (const tag of tags) {
+      if (typeof tag === 'string') {
+        normalized.push({ name: tag, attributes: {} });
+      } else if (tag && typeof tag === 'object' && typeof (tag as { name?: unknown }).name === 'string') {
+        const { name, ...attributes } = tag as { name: string; [key: string]: unknown };
+        normalized.push({ name, attributes });
+      }
+    }
+
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
   /**
    * Determine if a service file is core, contrib, or custom
    */
@@ -164,17 +212,26 @@ export class YamlServiceParser {
    * Scan and index all service files
    * If cache is empty, triggers full reindex
    */
-  async scanAndIndex(): Promise<number> {
+  async scanAndIndex(onProgress?: IndexProgressCallback): Promise<number> {
     // Check if cache is empty - if yes, do full reindex
     const hasCache = this.scannedFiles.size > 0 && this.hasCachedServices();
     
     if (!hasCache) {
       const files = await this.findAllServiceFiles();
-
-      for (const file of files) {
-        await this.parseFile(file);
+      const snapshot = getIndexSnapshot();
+
+      for (const [index, file] of files.entries()) {
+        // Reuse records from the previous session if the file is unchanged
+        const records = snapshot.get<DrupalService[]>(this.SERVICES_CACHE_PREFIX, file);
+        if (records) {
+          getCacheManager().set(this.SERVICES_CACHE_PREFIX + file, records, this.SERVICES_TTL);
+        } else {
+          snapshot.set(this.SERVICES_CACHE_PREFIX, file, await this.parseFile(file));
+        }
         this.scannedFiles.add(file);
+        await onProgress?.(index + 1, files.length);
       }
+      snapshot.retain(this.SERVICES_CACHE_PREFIX, files);
     }
 
     return this.getAllServices().length;
@@ -194,7 +251,7 @@ export class YamlServiceParser {
     this.clearCache(filePath);
 
     if (filePath.endsWith('.services.yml')) {
-      await this.parseFile(filePath);
+      getIndexSnapshot().set(this.SERVICES_CACHE_PREFIX, filePath, await this.parseFile(filePath));
       this.scannedFiles.add(filePath);
     }
   }
@@ -205,6 +262,7 @@ export class YamlServiceParser {
   handleFileDelete(filePath: string): void {
     this.clearCache(filePath);
     this.scannedFiles.delete(filePath);
+    getIndexSnapshot().delete(this.SERVICES_CACHE_PREFIX, filePath);
   }
 
   /**
@@ -223,12 +281,15 @@ export class YamlServiceParser {
   }
 
   /**
-   * Get all cached service names
+   * Get all cached service names, including inner names of decorated services
    */
   getAllServiceNames(): string[] {
     const names: string[] = [];
     const services = this.getAllServices();
     names.push(...services.map((s) => s.name));
+    for (const service of services) {
+      if (service.decorates) names.push(service.decorationInnerName ?? `${service.name}.inner`);
+    }
     return names;
   }
 
@@ -253,8 +314,18 @@ export class YamlServiceParser {
 
   /**
    * Get service by name from cache
+   * Inner names like my_decorator.inner resolve to the decorated service
    */
   getService(serviceName: string): DrupalService | null {
+    const service = this.findService(serviceName);
+    if (service) return service;
+
+    const decorator = this.getAllServices()
+      .find((s) => s.decorates && (s.decorationInnerName ?? `${s.name}.inner`) === serviceName);
+    return decorator?.decorates ? this.findService(decorator.decorates) : null;
+  }
+
+  private findService(serviceName: string): DrupalService | null {
     const cache = getCacheManager();
     
     for (const filePath of this.scannedFiles) {
@@ -270,6 +341,79 @@ export class YamlServiceParser {
     return null;
   }
 
+  /**
+   * Follow an alias to the services it points to, starting with the service itself
+   * e.g. Drupal\Core\Messenger\MessengerInterface => messenger
+   */
+  getAliasChain(serviceName: string): DrupalService[] {
+    const chain: DrupalService[] = [];
+    let service = this.getService(serviceName);
+
+    while (service && !chain.includes(service)) {
+      chain.push(service);
+      service = service.alias ? this.getService(service.alias) : null;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Get the service an alias resolves to, or the service itself
+   */
+  resolveService(serviceName: string): DrupalService | null {
+    const chain = this.getAliasChain(serviceName);
+    return chain.length > 0 ? chain[chain.length - 1] : null;
+  }
+
+  /**
+   * Get the class of a service, following aliases and parent services
+   */
+  getServiceClass(serviceName: string): string | undefined {
+    const seen = new Set<string>();
+    let service = this.resolveService(serviceName);
+
+    while (service && !seen.has(service.name)) {
+      if (service.class) return service.class.replace(/^\\/, '');
+      seen.add(service.name);
+      service = service.parent ? this.resolveService(service.parent) : null;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the services decorating a service, outermost first, followed by the service itself
+   * Decorators with a higher decoration_priority are applied first and end up closer to the service
+   */
+  getDecorationChain(serviceName: string): DrupalService[] {
+    const service = this.getService(serviceName);
+    if (!service) return [];
+
+    const decorators = this.getAllServices()
+      .filter((s) => s.decorates === serviceName)
+      .sort((a, b) => (a.decorationPriority ?? 0) - (b.decorationPriority ?? 0));
+
+    return [...decorators, service];
+  }
+
+  /**
+   * Get services tagged with a tag name, e.g. event_subscriber
+   */
+  getServicesByTag(tagName: string): DrupalService[] {
+    return this.getAllServices().filter((service) => service.tags?.some((tag) => tag.name === tagName));
+  }
+
+  /**
+   * Get all tag names used by indexed services
+   */
+  getAllTagNames(): string[] {
+    const names = new Set<string>();
+    for (const service of this.getAllServices()) {
+      service.tags?.forEach((tag) => names.add(tag.name));
+    }
+    return [...names];
+  }
+
   /**
    * Get Drupal root path
    */
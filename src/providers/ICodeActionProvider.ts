@@ -0,0 +1,20 @@
+import { CodeAction, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Base interface for code action providers (refactorings)
+ */
+export interface ICodeActionProvider {
+  /**
+   * Check if this provider can handle the given document
+   */
+  canProvide(document: TextDocument): boolean;
+
+  /**
+   * Provide code actions for the selected range
+   */
+  provideCodeActions(
+    document: TextDocument,
+    range: Range
+  ): Promise<CodeAction[]>;
+}
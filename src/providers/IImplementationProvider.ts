@@ -0,0 +1,20 @@
+import { Location, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Base interface for implementation providers (go to implementations)
+ */
+export interface IImplementationProvider {
+  /**
+   * Check if this provider can handle the given document and position
+   */
+  canProvide(document: TextDocument, position: Position): boolean;
+
+  /**
+   * Provide implementation locations
+   */
+  provideImplementation(
+    document: TextDocument,
+    position: Position
+  ): Promise<Location[]>;
+}
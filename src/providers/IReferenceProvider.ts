@@ -0,0 +1,21 @@
+import { Location, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Base interface for reference providers (find all references)
+ */
+export interface IReferenceProvider {
+  /**
+   * Check if this provider can handle the given document and position
+   */
+  canProvide(document: TextDocument, position: Position): boolean;
+
+  /**
+   * Provide reference locations
+   */
+  provideReferences(
+    document: TextDocument,
+    position: Position,
+    includeDeclaration: boolean
+  ): Promise<Location[]>;
+}
@@ -0,0 +1,29 @@
+import { Position, Range, WorkspaceEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Base interface for rename providers
+ */
+export interface IRenameProvider {
+  /**
+   * Check if this provider can handle the given document and position
+   */
+  canProvide(document: TextDocument, position: Position): boolean;
+
+  /**
+   * Validate the rename and return the range of the symbol being renamed
+   */
+  prepareRename(
+    document: TextDocument,
+    position: Position
+  ): Promise<Range | null>;
+
+  /**
+   * Provide edits for all occurrences of the symbol
+   */
+  provideRename(
+    document: TextDocument,
+    position: Position,
+    newName: string
+  ): Promise<WorkspaceEdit | null>;
+}
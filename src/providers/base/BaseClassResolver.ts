@@ -3,6 +3,15 @@ import * as path from 'path';
 
 export type ClassInfo = { className: string; methodName?: string };
 
+export type PhpParameter = { name: string; type?: string; optional: boolean; variadic: boolean };
+
+export type PhpMethod = { className: string; filePath: string; line: number; parameters: PhpParameter[] };
+
+const BUILTIN_TYPES = new Set([
+  'array', 'bool', 'callable', 'false', 'float', 'int', 'iterable', 'mixed', 'never', 'null', 'object', 'self',
+  'static', 'string', 'true', 'void', 'parent'
+]);
+
 /**
  * Resolves PHP class names to file paths
  * Handles Drupal's namespace conventions
@@ -45,6 +54,188 @@ export class BaseClassResolver {
     return null;
   }
 
+  /**
+   * Resolve a class name as written in a PHP file to its fully qualified name
+   * Follows use statements and aliases, self and static resolve to the class declared in the file
+   */
+  resolveImportedClass(content: string, name: string): string {
+    if (name.startsWith('\\')) return name.substring(1);
+
+    const namespace = content.match(/^namespace\s+([^;]+);/m)?.[1];
+    const qualify = (className: string) => (namespace ? `${namespace}\\${className}` : className);
+
+    if (name === 'self' || name === 'static') {
+      return qualify(content.match(/\b(?:class|interface|trait)\s+(\w+)/)?.[1] ?? name);
+    }
+
+    // Partially qualified names resolve their first segment, e.g. Events\MyEvents
+    const [first, ...rest] = name.split('\\');
+    for (const match of content.matchAll(/^use\s+\\?([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm)) {
+      const alias = match[2] ?? match[1].split('\\').pop();
+      if (alias === first) return [match[1], ...rest].join('\\');
+    }
+
+    return qualify(name);
+  }
+
+  /**
+   * Collect method names of a class, including those of its parent classes and traits
+   * Returns null if an ancestor can't be resolved or the class forwards calls with __call()
+   */
+  getClassMethods(content: string, depth: number = 0): Set<string> | null {
+    const ancestors = this.getDirectAncestors(content, false);
+    if (!ancestors || depth > 10) return null;
+
+    const methods = new Set<string>();
+    for (const match of content.matchAll(/\bfunction\s+(\w+)\s*\(/g)) {
+      methods.add(match[1]);
+    }
+    if (methods.has('__call')) return null;
+
+    for (const ancestor of ancestors) {
+      const ancestorPath = this.resolveClassPath(ancestor);
+      if (!ancestorPath || !fs.existsSync(ancestorPath)) return null;
+
+      const ancestorMethods = this.getClassMethods(fs.readFileSync(ancestorPath, 'utf-8'), depth + 1);
+      if (!ancestorMethods) return null;
+      ancestorMethods.forEach((method) => methods.add(method));
+    }
+
+    return methods;
+  }
+
+  /**
+   * Find a method declared by a class or inherited from its parent classes and traits
+   * Returns null if no class in the hierarchy declares it, undefined if part of the hierarchy can't be resolved
+   */
+  findMethod(className: string, methodName: string, depth: number = 0): PhpMethod | null | undefined {
+    const filePath = this.resolveClassPath(className);
+    if (!filePath || !fs.existsSync(filePath) || depth > 10) return undefined;
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const declaration = content.match(new RegExp(String.raw`\bfunction\s+${methodName}\s*\(`));
+    if (declaration) {
+      const open = (declaration.index ?? 0) + declaration[0].length - 1;
+      return {
+        className,
+        filePath,
+        line: content.substring(0, declaration.index).split('\n').length - 1,
+        parameters: this.parseParameters(content, open)
+      };
+    }
+
+    for (const ancestor of this.getDirectAncestors(content, false) ?? []) {
+      const method = this.findMethod(ancestor, methodName, depth + 1);
+      if (method !== null) return method;
+    }
+
+    return null;
+  }
+
+  /**
+   * Collect the parent classes, interfaces and traits of a class
+   * The list is incomplete if part of the hierarchy can't be resolved, e.g. classes in vendor
+   */
+  getClassAncestors(className: string): { names: Set<string>; complete: boolean } {
+    const names = new Set<string>();
+    const queue = [className];
+    let complete = true;
+
+    for (let i = 0; i < queue.length && i < 50; i++) {
+      const filePath = this.resolveClassPath(queue[i]);
+      if (!filePath || !fs.existsSync(filePath)) {
+        complete = false;
+        continue;
+      }
+
+      for (const ancestor of this.getDirectAncestors(fs.readFileSync(filePath, 'utf-8'), true) ?? []) {
+        if (names.has(ancestor)) continue;
+        names.add(ancestor);
+        queue.push(ancestor);
+      }
+    }
+
+    return { names, complete };
+  }
+
+  /**
+   * Get the parent class and traits, and optionally the interfaces, of the class declared in a file
+   */
+  private getDirectAncestors(content: string, includeInterfaces: boolean): string[] | null {
+    const declaration = content.match(
+      /\b(class|interface|trait)\s+\w+(?:\s+extends\s+([\w\\,\s]+?))?(?:\s+implements\s+([\w\\,\s]+?))?\s*\{/
+    );
+    if (!declaration) return null;
+
+    const split = (names?: string) => names?.split(',').map((name) => name.trim()).filter(Boolean) ?? [];
+    const ancestors: string[] = [];
+
+    // Interfaces extend other interfaces
+    if (declaration[1] !== 'interface' || includeInterfaces) ancestors.push(...split(declaration[2]));
+    if (includeInterfaces) ancestors.push(...split(declaration[3]));
+
+    const body = content.substring((declaration.index ?? 0) + declaration[0].length);
+    for (const match of body.matchAll(/^\s*use\s+([\w\\]+(?:\s*,\s*[\w\\]+)*)\s*[;{]/gm)) {
+      ancestors.push(...split(match[1]));
+    }
+
+    return ancestors.map((name) => this.resolveImportedClass(content, name));
+  }
+
+  /**
+   * Parse the parameter list starting at an opening parenthesis
+   * Class types are resolved to fully qualified names, promoted properties and attributes are skipped
+   */
+  private parseParameters(content: string, openIndex: number): PhpParameter[] {
+    const parameters: PhpParameter[] = [];
+    const segments: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (let i = openIndex + 1; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === quote && content[i - 1] !== '\\') quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        if (depth === 0) break;
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        segments.push(current);
+        current = '';
+        continue;
+      }
+
+      current += char;
+    }
+    segments.push(current);
+
+    for (const segment of segments) {
+      const declaration = segment
+        .replace(/#\[[^\]]*\]/g, '')
+        .replace(/\b(?:public|protected|private|readonly)\s+/g, '')
+        .trim();
+
+      const match = declaration.match(/^(?:([?\w\\|&()]+)\s+)?&?\s*(\.\.\.)?\s*\$(\w+)\s*(=)?/);
+      if (!match) continue;
+
+      const type = match[1]
+        ?.replace(/^\?/, '')
+        .split('|')
+        .map((name) => (BUILTIN_TYPES.has(name.toLowerCase()) ? name : this.resolveImportedClass(content, name)))
+        .join('|');
+
+      parameters.push({ name: match[3], type, optional: !!match[4] || !!match[2], variadic: !!match[2] });
+    }
+
+    return parameters;
+  }
+
   /**
    * Extract class name and optional method from YAML line
    * Works for both services.yml and routing.yml files
@@ -81,6 +272,22 @@ export class BaseClassResolver {
     return this.extractClassFromYamlLine(line, character);
   }
 
+  /**
+   * Extract handler class from route defaults (_controller or _form)
+   * Service notation controllers (service.name:method) are not resolved
+   */
+  extractRouteHandler(defaults?: { [key: string]: unknown }): ClassInfo | null {
+    if (!defaults) return null;
+
+    const handler = defaults._controller ?? defaults._form;
+    if (typeof handler !== 'string') return null;
+
+    const match = handler.match(/^\\?([A-Za-z0-9_\\]+)(?:::([A-Za-z0-9_]+))?$/);
+    if (!match || !match[1].includes('\\')) return null;
+
+    return { className: match[1], methodName: match[2] };
+  }
+
   /**
    * Get a symbol location (class or method) in a PHP file
    */
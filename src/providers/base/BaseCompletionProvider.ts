@@ -6,15 +6,19 @@ import { ICompletionProvider } from '../ICompletionProvider';
 import { BaseServiceNameExtractor } from './BaseServiceNameExtractor';
 import { BaseServiceProvider } from './BaseServiceProvider';
 import {DrupalRoute} from '../../parsers/YamlRouteParser';
+import { DrupalPermission } from '../../parsers/YamlPermissionParser';
+import { DrupalPlugin } from '../../parsers/PluginParser';
+import { DrupalLibrary } from '../../parsers/YamlLibraryParser';
 
 /**
  * Base Completion Provider
  * Shared logic for service name autocomplete across languages
  */
 export abstract class BaseCompletionProvider extends BaseServiceProvider implements ICompletionProvider {
-  protected extractor: BaseServiceNameExtractor;
+  protected extractor?: BaseServiceNameExtractor;
 
-  protected constructor(extractor: BaseServiceNameExtractor) {
+  // Languages without service references (e.g. Twig) have no extractor
+  protected constructor(extractor?: BaseServiceNameExtractor) {
     super();
     this.extractor = extractor;
   }
@@ -147,4 +151,98 @@ export abstract class BaseCompletionProvider extends BaseServiceProvider impleme
     if (route.sourceFile) doc += `**File:** ${route.sourceFile}`;
     return doc;
   }
+
+  protected allPermissionsCompletions(permissions: DrupalPermission[], replaceRange: Range, typedText: string): CompletionItem[] {
+    return permissions
+      // Generated permissions with dynamic parts can't be inserted as-is
+      .filter((permission) => !permission.pattern)
+      .filter((permission) => permission.name.toLowerCase().includes(typedText.toLowerCase()))
+      .map((permission) => {
+        const detail = permission.sourceType ? `[${permission.sourceType}] ${permission.title || ''}` : permission.title;
+        const sortPrefix = permission.sourceType === 'custom' ? '0' : permission.sourceType === 'contrib' ? '1' : '2';
+        const matchScore = this.calculateRouteMatchScore(permission.name, typedText, sortPrefix);
+
+        return {
+          label: permission.name,
+          kind: CompletionItemKind.Value,
+          detail: detail,
+          documentation: this.buildPermissionDocumentation(permission),
+          sortText: matchScore,
+          textEdit: TextEdit.replace(replaceRange, permission.name),
+          filterText: permission.name
+        };
+      });
+  }
+
+  protected buildPermissionDocumentation(permission: DrupalPermission): string {
+    let doc = `**Permission:** ${permission.name}\n\n`;
+    if (permission.title) doc += `**Title:** ${permission.title}\n\n`;
+    if (permission.description) doc += `${permission.description}\n\n`;
+    if (permission.restrictAccess) doc += '**Restricted:** yes\n\n';
+    if (permission.sourceType) doc += `**Source:** ${permission.sourceType}\n\n`;
+    if (permission.sourceFile) doc += `**File:** ${permission.sourceFile}`;
+    return doc;
+  }
+
+  protected allPluginsCompletions(plugins: DrupalPlugin[], replaceRange: Range, typedText: string): CompletionItem[] {
+    return plugins
+      .filter((plugin) => plugin.id.toLowerCase().includes(typedText.toLowerCase()))
+      .map((plugin) => {
+        const detail = `[${plugin.sourceType}] ${plugin.type}${plugin.label ? `: ${plugin.label}` : ''}`;
+        const sortPrefix = plugin.sourceType === 'custom' ? '0' : plugin.sourceType === 'contrib' ? '1' : '2';
+        const matchScore = this.calculateRouteMatchScore(plugin.id, typedText, sortPrefix);
+
+        return {
+          label: plugin.id,
+          kind: CompletionItemKind.Value,
+          detail: detail,
+          documentation: this.buildPluginDocumentation(plugin),
+          sortText: matchScore,
+          textEdit: TextEdit.replace(replaceRange, plugin.id),
+          filterText: plugin.id
+        };
+      });
+  }
+
+  protected buildPluginDocumentation(plugin: DrupalPlugin): string {
+    let doc = `**Plugin:** ${plugin.id}\n\n`;
+    doc += `**Type:** ${plugin.type}\n\n`;
+    if (plugin.label) doc += `**Label:** ${plugin.label}\n\n`;
+    if (plugin.className) doc += `**Class:** ${plugin.className}\n\n`;
+    if (plugin.hasDeriver) doc += '**Derivatives:** yes\n\n';
+    doc += `**Source:** ${plugin.sourceType}\n\n`;
+    doc += `**File:** ${plugin.sourceFile}`;
+    return doc;
+  }
+
+  protected allLibrariesCompletions(libraries: DrupalLibrary[], replaceRange: Range, typedText: string): CompletionItem[] {
+    return libraries
+      .filter((library) => library.id.toLowerCase().includes(typedText.toLowerCase()))
+      .map((library) => {
+        const detail = `[${library.sourceType}] ${library.extension}${library.version ? ` ${library.version}` : ''}`;
+        const sortPrefix = library.sourceType === 'custom' ? '0' : library.sourceType === 'contrib' ? '1' : '2';
+        const matchScore = this.calculateRouteMatchScore(library.id, typedText, sortPrefix);
+
+        return {
+          label: library.id,
+          kind: CompletionItemKind.Value,
+          detail: detail,
+          documentation: this.buildLibraryDocumentation(library),
+          sortText: matchScore,
+          textEdit: TextEdit.replace(replaceRange, library.id),
+          filterText: library.id
+        };
+      });
+  }
+
+  protected buildLibraryDocumentation(library: DrupalLibrary): string {
+    let doc = `**Library:** ${library.id}\n\n`;
+    if (library.version) doc += `**Version:** ${library.version}\n\n`;
+    if (library.css.length > 0) doc += `**CSS:** ${library.css.join(', ')}\n\n`;
+    if (library.js.length > 0) doc += `**JS:** ${library.js.join(', ')}\n\n`;
+    if (library.dependencies.length > 0) doc += `**Dependencies:** ${library.dependencies.join(', ')}\n\n`;
+    doc += `**Source:** ${library.sourceType}\n\n`;
+    doc += `**File:** ${library.sourceFile}`;
+    return doc;
+  }
 }
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import { Definition, Location, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { IDefinitionProvider } from '../IDefinitionProvider';
+import { BaseClassResolver } from './BaseClassResolver';
+import { getPluginParser, getYamlRouteParser, getYamlServiceParser } from '../../server';
+
+/**
+ * Base Definition Provider
+ * Shared go-to-definition logic for routes and plugins across languages
+ */
+export abstract class BaseDefinitionProvider implements IDefinitionProvider {
+  protected classResolver: BaseClassResolver;
+
+  protected constructor() {
+    this.classResolver = new BaseClassResolver(getYamlServiceParser().getDrupalRoot());
+  }
+
+  abstract canProvide(document: TextDocument, position: Position): boolean;
+
+  abstract provideDefinition(document: TextDocument, position: Position): Promise<Definition | null>;
+
+  /**
+   * Resolve route definition locations
+   * Returns the route key in .routing.yml and its _controller/_form class method
+   */
+  protected async resolveRouteDefinition(routeName: string): Promise<Location[] | null> {
+    const route = getYamlRouteParser().getRoute(routeName);
+    if (!route) return null;
+
+    const locations: Location[] = [];
+
+    if (route.sourceFile) {
+      const line = route.sourceLine ? parseInt(route.sourceLine, 10) - 1 : 0;
+      locations.push(Location.create(`file://${route.sourceFile}`, Range.create(line, 0, line, 0)));
+    }
+
+    const handler = this.classResolver.extractRouteHandler(route.defaults);
+    if (handler) {
+      const classPath = this.classResolver.resolveClassPath(handler.className);
+      if (classPath) {
+        const line = await this.classResolver.getSymbolLocation(classPath, handler.methodName);
+        locations.push(Location.create(`file://${classPath}`, Range.create(line, 0, line, 0)));
+      }
+    }
+
+    return locations.length > 0 ? locations : null;
+  }
+
+  /**
+   * Resolve plugin class location
+   * Falls back to the indexed file for classes outside the standard module layout
+   */
+  protected async resolvePluginDefinition(pluginId: string, types: string[] | null): Promise<Location | null> {
+    const plugin = getPluginParser()?.getPlugin(pluginId, types ?? undefined);
+    if (!plugin) return null;
+
+    const classPath = plugin.className ? this.classResolver.resolveClassPath(plugin.className) : null;
+    if (classPath && fs.existsSync(classPath)) {
+      const line = await this.classResolver.getSymbolLocation(classPath);
+      return Location.create(`file://${classPath}`, Range.create(line, 0, line, 0));
+    }
+
+    const line = parseInt(plugin.sourceLine, 10) - 1;
+    return Location.create(`file://${plugin.sourceFile}`, Range.create(line, 0, line, 0));
+  }
+}
@@ -1,18 +1,27 @@
 import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
-import { getYamlServiceParser } from '../../server';
+import {
+  getHookParser,
+  getPluginParser,
+  getYamlConfigParser,
+  getYamlLibraryParser,
+  getYamlPermissionParser,
+  getYamlRouteParser,
+  getYamlServiceParser
+} from '../../server';
 
 /**
  * Base Diagnostic Provider
- * Common utilities for validating service references
+ * Common utilities for validating service, route, permission, plugin, library and config references
  */
 export abstract class BaseDiagnosticProvider {
   /**
    * Check if service exists in registry
+   * Hook classes are autowired services without a services.yml entry
    */
   protected serviceExists(serviceName: string): boolean {
     const parser = getYamlServiceParser();
     const service = parser.getService(serviceName);
-    return service !== null;
+    return service !== null || getHookParser()?.isHookClass(serviceName) === true;
   }
 
   /**
@@ -40,4 +49,170 @@ export abstract class BaseDiagnosticProvider {
     const names = parser.getAllServiceNames();
     return new Set(names);
   }
+
+  /**
+   * Check if route exists in registry
+   */
+  protected routeExists(routeName: string): boolean {
+    const routeParser = getYamlRouteParser();
+    if (!routeParser) return true; // Skip validation if parser not available
+
+    return routeParser.getRoute(routeName) !== null;
+  }
+
+  /**
+   * Check if route is a dynamic route pattern that we can't validate
+   * Only returns true for routes that START with dynamic prefix but are NOT in our known routes
+   * This is more permissive - we only skip validation if it looks like a custom dynamic route
+   */
+  protected isDynamicRoutePattern(routeName: string): boolean {
+    const dynamicPrefixes = [
+      'view.',           // Custom views - view.my_view.page_1
+      'rest.',           // REST resources
+      'jsonapi.',        // JSON:API resources
+      'layout_builder.', // Layout builder
+      'field_ui.'       // Field UI
+    ];
+
+    // Check if it matches a dynamic pattern
+    // Note: entity.* routes are NOT in this list because we have common entity routes
+    // If entity.node.canonical is misspelled (entity.node.canonicals), we WANT to show an error
+    return dynamicPrefixes.some((prefix) => routeName.startsWith(prefix));
+  }
+
+  /**
+   * Create diagnostic for non-existent route
+   */
+  protected createRouteNotFoundDiagnostic(
+    line: number,
+    start: number,
+    end: number,
+    routeName: string
+  ): Diagnostic {
+    return {
+      severity: DiagnosticSeverity.Error,
+      range: Range.create(line, start, line, end),
+      message: `Route '${routeName}' not found`,
+      source: 'drupal-lsp'
+    };
+  }
+
+  /**
+   * Check if permission exists (literal or generated by a permission callback)
+   * Callbacks whose keys can't be read only cover names matching the strings they build
+   */
+  protected permissionExists(permissionName: string): boolean {
+    const parser = getYamlPermissionParser();
+    if (!parser) return true; // Skip validation if parser not available
+    return parser.getPermission(permissionName) !== null || parser.isGeneratedByUnresolvedCallback(permissionName);
+  }
+
+  /**
+   * Create diagnostic for unknown permission
+   * Warning only - permission callbacks we can't resolve may still define it
+   */
+  protected createPermissionNotFoundDiagnostic(
+    line: number,
+    start: number,
+    end: number,
+    permissionName: string
+  ): Diagnostic {
+    const callbacks = getYamlPermissionParser()?.getUnresolvedCallbacks().map((c) => c.callback.replace(/^\\/, '')) ?? [];
+    const suffix = callbacks.length > 0 ? ` (permission callbacks that could not be read: ${callbacks.join(', ')})` : '';
+
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: Range.create(line, start, line, end),
+      message: `Unknown permission '${permissionName}'${suffix}`,
+      source: 'drupal-lsp'
+    };
+  }
+
+  /**
+   * Check if plugin exists for any of the given types (any type when null)
+   * Without indexed plugins of these types every ID would be reported, so they pass
+   */
+  protected pluginExists(pluginId: string, types: string[] | null): boolean {
+    const parser = getPluginParser();
+    if (!parser) return true; // Skip validation if parser not available
+
+    const plugins = types ? parser.getPluginsByType(types) : parser.getAllPlugins();
+    if (plugins.length === 0) return true;
+
+    return parser.getPlugin(pluginId, types ?? undefined) !== null;
+  }
+
+  /**
+   * Create diagnostic for unknown plugin
+   * Warning only - plugins from unindexed locations may still exist
+   */
+  protected createPluginNotFoundDiagnostic(
+    line: number,
+    start: number,
+    end: number,
+    pluginId: string
+  ): Diagnostic {
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: Range.create(line, start, line, end),
+      message: `Unknown plugin '${pluginId}'`,
+      source: 'drupal-lsp'
+    };
+  }
+
+  /**
+   * Check if library exists
+   * Without indexed libraries every ID would be reported, so they pass
+   */
+  protected libraryExists(libraryId: string): boolean {
+    const parser = getYamlLibraryParser();
+    if (!parser || parser.getAllLibraries().length === 0) return true;
+    return parser.getLibrary(libraryId) !== null;
+  }
+
+  /**
+   * Create diagnostic for unknown library
+   * Warning only - hook_library_info_build() may define libraries dynamically
+   */
+  protected createLibraryNotFoundDiagnostic(
+    line: number,
+    start: number,
+    end: number,
+    libraryId: string
+  ): Diagnostic {
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: Range.create(line, start, line, end),
+      message: `Unknown library '${libraryId}'`,
+      source: 'drupal-lsp'
+    };
+  }
+
+  /**
+   * Check if config object exists
+   * Without indexed config every name would be reported, so they pass
+   */
+  protected configExists(configName: string): boolean {
+    const parser = getYamlConfigParser();
+    if (!parser || parser.getAllConfigObjects().length === 0) return true;
+    return parser.configExists(configName);
+  }
+
+  /**
+   * Create diagnostic for unknown config object
+   * Warning only - config may be created at runtime
+   */
+  protected createConfigNotFoundDiagnostic(
+    line: number,
+    start: number,
+    end: number,
+    configName: string
+  ): Diagnostic {
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: Range.create(line, start, line, end),
+      message: `Unknown config object '${configName}'`,
+      source: 'drupal-lsp'
+    };
+  }
 }
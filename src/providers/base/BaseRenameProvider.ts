@@ -0,0 +1,131 @@
+import {
+  LSPErrorCodes,
+  Location,
+  Position,
+  Range,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { IRenameProvider } from '../IRenameProvider';
+import { UsageLocator } from './UsageLocator';
+import { getYamlRouteParser, getYamlServiceParser } from '../../server';
+
+export type RenameSymbol = {
+  type: 'service' | 'route';
+  name: string;
+  range: Range;
+};
+
+/**
+ * Base Rename Provider
+ * Builds workspace edits for services and routes tracked in the usage index
+ * Only symbols defined in custom code can be renamed
+ */
+export abstract class BaseRenameProvider implements IRenameProvider {
+  protected locator: UsageLocator;
+
+  protected constructor() {
+    this.locator = new UsageLocator();
+  }
+
+  abstract canProvide(document: TextDocument, position: Position): boolean;
+
+  /**
+   * Find the symbol under the cursor
+   */
+  protected abstract extractSymbol(document: TextDocument, position: Position): RenameSymbol | null;
+
+  async prepareRename(document: TextDocument, position: Position): Promise<Range | null> {
+    const symbol = this.extractSymbol(document, position);
+    if (!symbol) return null;
+
+    this.assertRenamable(symbol);
+    return symbol.range;
+  }
+
+  async provideRename(document: TextDocument, position: Position, newName: string): Promise<WorkspaceEdit | null> {
+    const symbol = this.extractSymbol(document, position);
+    if (!symbol) return null;
+
+    this.assertRenamable(symbol);
+
+    if (!/^[a-zA-Z0-9_.]+$/.test(newName)) {
+      throw new ResponseError(LSPErrorCodes.RequestFailed, `'${newName}' is not a valid ${symbol.type} name`);
+    }
+
+    const locations = this.getSymbolLocations(symbol);
+    return this.buildWorkspaceEdit(locations, newName);
+  }
+
+  /**
+   * Get definition and all usages of the symbol
+   */
+  protected getSymbolLocations(symbol: RenameSymbol): Location[] {
+    return this.locator.getLocations(symbol.type, symbol.name, true);
+  }
+
+  /**
+   * Throw if the symbol is unknown or not defined in custom code
+   */
+  protected assertRenamable(symbol: RenameSymbol): void {
+    const definition = symbol.type === 'service'
+      ? getYamlServiceParser().getService(symbol.name)
+      : getYamlRouteParser().getRoute(symbol.name);
+    const label = symbol.type === 'service' ? 'Service' : 'Route';
+
+    if (!definition) {
+      throw new ResponseError(LSPErrorCodes.RequestFailed, `${label} '${symbol.name}' not found`);
+    }
+
+    // Entity route names are derived from the entity type ID and link template
+    if ('entityType' in definition && definition.entityType) {
+      throw new ResponseError(
+        LSPErrorCodes.RequestFailed,
+        `Cannot rename route '${symbol.name}' generated by entity type '${definition.entityType}'`
+      );
+    }
+
+    if (definition.sourceType !== 'custom') {
+      throw new ResponseError(
+        LSPErrorCodes.RequestFailed,
+        `Cannot rename ${definition.sourceType} ${symbol.type} '${symbol.name}'`
+      );
+    }
+  }
+
+  /**
+   * Group replacements by document
+   */
+  protected buildWorkspaceEdit(locations: Location[], newName: string): WorkspaceEdit {
+    const changes: { [uri: string]: TextEdit[] } = {};
+
+    for (const location of locations) {
+      if (!changes[location.uri]) {
+        changes[location.uri] = [];
+      }
+      changes[location.uri].push(TextEdit.replace(location.range, newName));
+    }
+
+    return { changes };
+  }
+
+  /**
+   * Find range of name on the line, preferring the occurrence under the cursor
+   */
+  protected findRangeAtCharacter(line: string, lineNumber: number, name: string, character: number): Range | null {
+    const firstStart = line.indexOf(name);
+    if (firstStart < 0) return null;
+
+    let matchStart = firstStart;
+    for (let start = firstStart; start >= 0; start = line.indexOf(name, start + 1)) {
+      if (character >= start && character <= start + name.length) {
+        matchStart = start;
+        break;
+      }
+    }
+
+    return Range.create(lineNumber, matchStart, lineNumber, matchStart + name.length);
+  }
+}
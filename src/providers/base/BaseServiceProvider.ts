@@ -39,6 +39,7 @@ export abstract class BaseServiceProvider {
    * Build service detail string for display
    */
   protected buildServiceDetail(service: DrupalService): string {
+    if (service.alias) return `@${service.alias}`;
     return service.class ? service.class : service.name;
   }
 
@@ -48,10 +49,18 @@ export abstract class BaseServiceProvider {
   protected buildServiceDocumentation(service: DrupalService): string {
     const lines = [`Service: ${service.name}`];
 
+    if (service.alias) {
+      lines.push(`Alias of: ${service.alias}`);
+    }
+
     if (service.class) {
       lines.push(`Class: ${service.class}`);
     }
 
+    if (service.decorates) {
+      lines.push(`Decorates: ${service.decorates}`);
+    }
+
     if (service.sourceType) {
       lines.push(`Source: ${service.sourceType}`);
     }
@@ -1,9 +1,14 @@
 import { BaseClassResolver, ClassInfo } from './BaseClassResolver';
 import { DrupalService } from '../../parsers/YamlServiceParser';
-import { getCacheManager } from '../../server';
+import { DrupalPermission } from '../../parsers/YamlPermissionParser';
+import { DrupalRoute, YamlRouteParser } from '../../parsers/YamlRouteParser';
+import { DrupalHook } from '../../parsers/HookParser';
+import { DrupalEventSubscription } from '../../parsers/EventSubscriberParser';
+import * as path from 'path';
+import { getCacheManager, getYamlServiceParser } from '../../server';
 
 /**
- * Builds hover content for services and classes
+ * Builds hover content for services, routes, permissions, hooks, events and classes
  * Unified formatting for YAML and PHP providers
  */
 export class HoverContentBuilder {
@@ -34,6 +39,27 @@ export class HoverContentBuilder {
       content += `**Service:** \`${service.name}\`\n\n`;
     }
 
+    // Aliases show the service they resolve to
+    const parser = getYamlServiceParser();
+    const aliasChain = parser.getAliasChain(service.name);
+    if (aliasChain.length > 1) {
+      content += `**Alias of:** ${aliasChain.slice(1).map((s) => `\`${s.name}\``).join(' → ')}\n\n`;
+      service = aliasChain[aliasChain.length - 1];
+    } else if (service.alias) {
+      content += `**Alias of:** \`${service.alias}\` (not found)\n\n`;
+    }
+
+    if (service.decorates) {
+      const innerName = service.decorationInnerName ?? `${service.name}.inner`;
+      content += `**Decorates:** \`${service.decorates}\` (inner service \`${innerName}\`)\n\n`;
+    }
+
+    // Decorators replace the service, outermost first
+    const decorationChain = parser.getDecorationChain(service.name);
+    if (decorationChain.length > 1) {
+      content += `**Decorated by:** ${decorationChain.map((s) => `\`${s.name}\``).join(' → ')}\n\n`;
+    }
+
     // Class with clickable link
     if (service.class) {
       const classPath = this.classResolver.resolveClassPath(service.class);
@@ -55,6 +81,10 @@ export class HoverContentBuilder {
       content += `**Arguments:** ${service.arguments.join(', ')}\n\n`;
     }
 
+    if (service.autowire) {
+      content += '**Autowired:** yes\n\n';
+    }
+
     cache.set(cacheKey, content, this.SERVICE_TTL);
     return content;
   }
@@ -271,6 +301,258 @@ export class HoverContentBuilder {
     return formatted.trim() || '';
   }
 
+  /**
+   * Build hover content for a route
+   */
+  async buildRouteHover(route: DrupalRoute): Promise<string> {
+    const cache = getCacheManager();
+    const cacheKey = `route:${route.name}`;
+    const cached = cache.get(cacheKey) as string | undefined;
+
+    if (cached) {
+      return cached;
+    }
+
+    let content = '';
+
+    if (route.sourceFile) {
+      const line = route.sourceLine ? parseInt(route.sourceLine, 10) : 1;
+      content += `**Route:** [\`${route.name}\`](file://${route.sourceFile}#${line})\n\n`;
+    } else {
+      content += `**Route:** \`${route.name}\`\n\n`;
+    }
+
+    if (route.path) {
+      content += `**Path:** \`${route.path}\`\n\n`;
+
+      const parameters = YamlRouteParser.extractPathParameters(route.path);
+      if (parameters.length > 0) {
+        content += '**Parameters:**\n\n';
+        for (const parameter of parameters) {
+          const defaultValue = route.defaults?.[parameter];
+          content += defaultValue !== undefined
+            ? `- \`${parameter}\` (default: \`${String(defaultValue)}\`)\n`
+            : `- \`${parameter}\`\n`;
+        }
+        content += '\n';
+      }
+    }
+
+    if (route.defaults?._title) {
+      content += `**Title:** ${route.defaults._title}\n\n`;
+    }
+
+    // Handler with clickable link
+    const handler = this.classResolver.extractRouteHandler(route.defaults);
+    if (handler) {
+      const label = route.defaults?._controller ? 'Controller' : 'Form';
+      content += `**${label}:** ${await this.buildClassLink(handler)}\n\n`;
+    } else if (route.defaults?._entity_form) {
+      content += `**Entity form:** \`${route.defaults._entity_form}\`\n\n`;
+    } else if (route.defaults?._entity_view) {
+      content += `**Entity view:** \`${String(route.defaults._entity_view)}\`\n\n`;
+    } else if (route.defaults?._entity_list) {
+      content += `**Entity list:** \`${String(route.defaults._entity_list)}\`\n\n`;
+    } else if (route.defaults?._controller) {
+      content += `**Controller:** \`${route.defaults._controller}\`\n\n`;
+    }
+
+    content += await this.buildRouteAccess(route);
+
+    const extension = route.sourceFile ? await this.findExtensionName(route.sourceFile) : null;
+    if (route.entityType) {
+      content += `**Entity type:** \`${route.entityType}\``;
+      content += route.sourceType ? ` (${route.sourceType})\n\n` : '\n\n';
+    } else if (extension) {
+      content += `**Module:** \`${extension}\``;
+      content += route.sourceType ? ` (${route.sourceType})\n\n` : '\n\n';
+    } else if (route.sourceType) {
+      content += `**Source:** ${route.sourceType}\n\n`;
+    }
+
+    cache.set(cacheKey, content, this.SERVICE_TTL);
+    return content;
+  }
+
+  /**
+   * Get the machine name of the extension owning a file, from the *.info.yml in its directory or a parent directory
+   */
+  private async findExtensionName(filePath: string): Promise<string | null> {
+    const fs = await import('fs');
+
+    for (let directory = path.dirname(filePath); directory !== path.dirname(directory); directory = path.dirname(directory)) {
+      try {
+        const infoFile = fs.readdirSync(directory).find((file) => file.endsWith('.info.yml'));
+        if (infoFile) return path.basename(infoFile, '.info.yml');
+      } catch {
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build access requirements section for a route
+   */
+  private async buildRouteAccess(route: DrupalRoute): Promise<string> {
+    const requirements = route.requirements;
+    if (!requirements) return '';
+
+    const lines: string[] = [];
+
+    if (requirements._permission) {
+      lines.push(`- Permission: \`${requirements._permission}\``);
+    }
+    if (requirements._role) {
+      lines.push(`- Role: \`${String(requirements._role)}\``);
+    }
+    if (requirements._entity_access) {
+      lines.push(`- Entity access: \`${String(requirements._entity_access)}\``);
+    }
+    if (requirements._entity_create_access) {
+      lines.push(`- Entity create access: \`${String(requirements._entity_create_access)}\``);
+    }
+    if (requirements._custom_access) {
+      const customAccess = String(requirements._custom_access);
+      const classInfo = this.classResolver.extractRouteHandler({ _controller: customAccess });
+      lines.push(`- Custom access: ${classInfo ? await this.buildClassLink(classInfo) : `\`${customAccess}\``}`);
+    }
+    if (requirements._access) {
+      lines.push(`- Access: \`${String(requirements._access)}\``);
+    }
+
+    return lines.length > 0 ? `**Access:**\n\n${lines.join('\n')}\n\n` : '';
+  }
+
+  /**
+   * Build clickable link to a class or class method
+   */
+  private async buildClassLink(classInfo: ClassInfo): Promise<string> {
+    const label = classInfo.methodName
+      ? `${classInfo.className}::${classInfo.methodName}`
+      : classInfo.className;
+
+    const classPath = this.classResolver.resolveClassPath(classInfo.className);
+    if (!classPath) {
+      return `\`${label}\``;
+    }
+
+    const line = await this.classResolver.getSymbolLocation(classPath, classInfo.methodName);
+    return `[\`${label}\`](file://${classPath}#${line + 1})`;
+  }
+
+  /**
+   * Build hover content for undefined route
+   */
+  buildUndefinedRouteHover(routeName: string): string {
+    return `Route \`${routeName}\` not found`;
+  }
+
+  /**
+   * Build hover content for a permission
+   */
+  buildPermissionHover(permission: DrupalPermission, permissionName: string = permission.name): string {
+    const cache = getCacheManager();
+    const cacheKey = `permission:${permissionName}`;
+    const cached = cache.get(cacheKey) as string | undefined;
+
+    if (cached) {
+      return cached;
+    }
+
+    let content = '';
+
+    if (permission.sourceFile) {
+      const line = permission.sourceLine ? parseInt(permission.sourceLine, 10) : 1;
+      content += `**Permission:** [\`${permissionName}\`](file://${permission.sourceFile}#${line})\n\n`;
+    } else {
+      content += `**Permission:** \`${permissionName}\`\n\n`;
+    }
+
+    if (permission.title) {
+      content += `**Title:** ${permission.title}\n\n`;
+    }
+
+    if (permission.description) {
+      content += `${permission.description}\n\n`;
+    }
+
+    if (permission.restrictAccess) {
+      content += '**Restrict access:** Warning: Give to trusted roles only\n\n';
+    }
+
+    if (permission.callback) {
+      content += `**Generated by:** \`${permission.callback}\`\n\n`;
+    }
+
+    if (permission.sourceType) {
+      content += `**Source:** ${permission.sourceType}\n\n`;
+    }
+
+    cache.set(cacheKey, content, this.SERVICE_TTL);
+    return content;
+  }
+
+  /**
+   * Build hover content for undefined permission
+   */
+  buildUndefinedPermissionHover(permissionName: string): string {
+    return `Permission \`${permissionName}\` not found`;
+  }
+
+  /**
+   * Build hover content for a hook from its API documentation
+   */
+  async buildHookHover(hook: DrupalHook): Promise<string> {
+    const cache = getCacheManager();
+    const cacheKey = `hook:${hook.name}`;
+    const cached = cache.get(cacheKey) as string | undefined;
+
+    if (cached) {
+      return cached;
+    }
+
+    const line = parseInt(hook.sourceLine, 10);
+    let content = `**Hook:** [\`hook_${hook.name}\`](file://${hook.sourceFile}#${line})\n\n`;
+    content += `\`\`\`php\nfunction hook_${hook.name}(${hook.parameters})\n\`\`\`\n\n`;
+
+    const doc = await this.extractDocumentation(hook.sourceFile, line - 1, true);
+    if (doc) {
+      content += `${doc}\n\n`;
+    }
+
+    content += `**Module:** \`${path.basename(hook.sourceFile).split('.')[0]}\` (${hook.sourceType})\n\n`;
+
+    cache.set(cacheKey, content, this.SERVICE_TTL);
+    return content;
+  }
+
+  /**
+   * Build hover content for an event with its subscribers in dispatch order
+   */
+  async buildEventHover(event: string, subscriptions: DrupalEventSubscription[]): Promise<string> {
+    let content = `**Event:** \`${event}\`\n\n`;
+
+    if (subscriptions.length === 0) {
+      return content + 'No subscribers\n\n';
+    }
+
+    const services = getYamlServiceParser().getServicesByTag('event_subscriber');
+    content += `**Subscribers (${subscriptions.length}):**\n\n`;
+
+    for (const subscription of subscriptions) {
+      const line = await this.classResolver.getSymbolLocation(subscription.sourceFile, subscription.methodName);
+      const label = `${subscription.className}::${subscription.methodName}`;
+      const service = services.find((s) => s.class?.replace(/^\\/, '') === subscription.className);
+
+      content += `- [\`${label}\`](file://${subscription.sourceFile}#${line + 1}) priority ${subscription.priority}`;
+      content += service ? ` (\`${service.name}\`)\n` : '\n';
+    }
+
+    return content + '\n';
+  }
+
   /**
    * Build hover content for undefined service
    */
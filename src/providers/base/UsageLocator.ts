@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import { Location, Range } from 'vscode-languageserver';
+import { DrupalUsage } from '../../parsers/UsageParser';
+import { getUsageParser, getYamlRouteParser, getYamlServiceParser } from '../../server';
+
+/**
+ * Locates definitions and usages of symbols from the usage index
+ * Shared by reference and rename providers
+ */
+export class UsageLocator {
+  /**
+   * Collect all usages of a service or route, optionally with its definition site
+   */
+  getLocations(type: DrupalUsage['type'], name: string, includeDeclaration: boolean): Location[] {
+    const locations: Location[] = [];
+
+    if (includeDeclaration) {
+      const definition = type === 'service'
+        ? this.getServiceDefinitionLocation(name)
+        : this.getRouteDefinitionLocation(name);
+      if (definition) {
+        locations.push(definition);
+      }
+    }
+
+    const usageParser = getUsageParser();
+    if (!usageParser) return locations;
+
+    for (const usage of usageParser.getUsages(type, name)) {
+      locations.push(
+        Location.create(
+          `file://${usage.sourceFile}`,
+          Range.create(usage.line, usage.start, usage.line, usage.end)
+        )
+      );
+    }
+
+    return locations;
+  }
+
+  /**
+   * Resolve the exact location of a service key in its .services.yml file
+   */
+  getServiceDefinitionLocation(serviceName: string): Location | null {
+    const service = getYamlServiceParser().getService(serviceName);
+    if (!service || !service.sourceFile || !service.sourceLine) return null;
+
+    const line = parseInt(service.sourceLine, 10) - 1;
+    return Location.create(
+      `file://${service.sourceFile}`,
+      this.findNameRange(service.sourceFile, line, serviceName)
+    );
+  }
+
+  /**
+   * Resolve the exact location of a route key in its .routing.yml file
+   */
+  getRouteDefinitionLocation(routeName: string): Location | null {
+    const route = getYamlRouteParser().getRoute(routeName);
+    if (!route || !route.sourceFile || !route.sourceLine) return null;
+
+    const line = parseInt(route.sourceLine, 10) - 1;
+    return Location.create(
+      `file://${route.sourceFile}`,
+      this.findNameRange(route.sourceFile, line, routeName)
+    );
+  }
+
+  /**
+   * Find the range of a name on a given line of a file
+   * Falls back to the start of the line if the name can't be located
+   */
+  findNameRange(filePath: string, line: number, name: string): Range {
+    try {
+      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      const start = (lines[line] || '').indexOf(name);
+      if (start >= 0) {
+        return Range.create(line, start, line, start + name.length);
+      }
+    } catch {
+      // Ignore read errors
+    }
+
+    return Range.create(line, 0, line, 0);
+  }
+}
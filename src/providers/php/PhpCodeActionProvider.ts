@@ -0,0 +1,477 @@
+import * as fs from 'fs';
+import * as YAML from 'yaml';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeAction, CodeActionKind, Range, TextEdit } from 'vscode-languageserver';
+import { ICodeActionProvider } from '../ICodeActionProvider';
+import { BaseClassResolver } from '../base/BaseClassResolver';
+import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
+import { DrupalService } from '../../parsers/YamlServiceParser';
+import { getYamlServiceParser } from '../../server';
+
+type ClassScope = {
+  className: string;
+  fqcn: string;
+  namespace?: string;
+  start: number;
+  headerEnd: number; // Offset of the opening brace
+  bodyEnd: number; // Offset of the closing brace
+};
+
+type FunctionScope = { open: number; close: number; bodyStart: number; bodyEnd: number };
+
+type Insertion = { offset: number; text: string };
+
+/**
+ * PHP Code Action Provider
+ * Converts \Drupal::service() calls inside classes to dependency injection
+ * Services get a constructor parameter and an argument in their *.services.yml definition,
+ * classes implementing ContainerInjectionInterface or ContainerFactoryPluginInterface get it in create()
+ */
+export class PhpCodeActionProvider implements ICodeActionProvider {
+  private static readonly CALL_PATTERN = /\\?Drupal::service\s*\(\s*(['"])([a-z0-9._]+)\1\s*\)/gi;
+  private static readonly CONTAINER_INTERFACE = 'Symfony\\Component\\DependencyInjection\\ContainerInterface';
+  private static readonly CONTAINER_INJECTION_INTERFACE = 'Drupal\\Core\\DependencyInjection\\ContainerInjectionInterface';
+  private static readonly CONTAINER_FACTORY_PLUGIN_INTERFACE = 'Drupal\\Core\\Plugin\\ContainerFactoryPluginInterface';
+  private static readonly PLUGIN_ARGUMENTS = ['$configuration', '$plugin_id', '$plugin_definition'];
+
+  private extractor: PhpServiceNameExtractor;
+  private classResolver: BaseClassResolver;
+
+  constructor() {
+    this.extractor = new PhpServiceNameExtractor();
+    this.classResolver = new BaseClassResolver(getYamlServiceParser().getDrupalRoot());
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'php' || document.uri.endsWith('.php');
+  }
+
+  async provideCodeActions(document: TextDocument, range: Range): Promise<CodeAction[]> {
+    const content = document.getText();
+    const line = document.getText({
+      start: { line: range.start.line, character: 0 },
+      end: { line: range.start.line, character: 1000 }
+    });
+
+    const call = [...line.matchAll(PhpCodeActionProvider.CALL_PATTERN)].find((match) => {
+      const start = match.index ?? 0;
+      return range.start.character >= start && range.start.character <= start + match[0].length;
+    });
+    if (!call) return [];
+
+    const callStart = call.index ?? 0;
+    const serviceName = this.extractor.extractServiceName(line, callStart + call[0].indexOf(call[2]));
+    if (!serviceName) return [];
+
+    // $this is only available in non-static methods
+    const scope = this.findClass(content);
+    const offset = document.offsetAt({ line: range.start.line, character: callStart });
+    if (!scope || offset < scope.headerEnd || offset > scope.bodyEnd) return [];
+    if (this.isInStaticMethod(content, scope, offset)) return [];
+
+    // The property name may already be taken by another service
+    const property = this.toPropertyName(serviceName);
+    if (new RegExp(String.raw`\$${property}\b`).test(content)) return [];
+
+    const serviceParser = getYamlServiceParser();
+    const definitions = serviceParser.getAllServices().filter((service) => !service.alias && service.class === scope.fqcn);
+    if (definitions.length > 1) return [];
+
+    // Only services and classes instantiated through create() get their dependencies injected
+    const definition: DrupalService | undefined = definitions[0];
+    const ancestors = definition ? null : this.classResolver.getClassAncestors(scope.fqcn).names;
+    const isPlugin = !!ancestors?.has(PhpCodeActionProvider.CONTAINER_FACTORY_PLUGIN_INTERFACE);
+    if (!definition && !isPlugin && !ancestors?.has(PhpCodeActionProvider.CONTAINER_INJECTION_INTERFACE)) return [];
+    const isService = !!definition;
+
+    const imports = new Set<string>();
+    const insertions: Insertion[] = [];
+    const members: string[] = [];
+    const changes: { [uri: string]: TextEdit[] } = {};
+
+    const serviceClass = serviceParser.getServiceClass(serviceName);
+    const type = serviceClass ? this.importClass(content, scope, this.getPreferredType(serviceClass), imports) : null;
+    const parameter = `protected ${type ? `${type} ` : ''}$${property}`;
+
+    const constructor = this.findFunction(content, scope, '__construct');
+    const parameterCount = constructor ? this.countArguments(content, constructor.open, constructor.close) : 0;
+
+    if (constructor) {
+      // Nothing can follow a variadic parameter
+      if (/\.\.\.\s*\$\w+/.test(content.substring(constructor.open, constructor.close))) return [];
+      insertions.push(this.appendArgument(content, constructor.open, constructor.close, parameter));
+    } else {
+      // Parent constructors can only be called with known arguments, e.g. FormatterBase takes more than the plugin ones
+      const inherited = this.classResolver.findMethod(scope.fqcn, '__construct');
+      const inheritedCount = inherited?.parameters.length;
+      if (isPlugin ? inheritedCount !== PhpCodeActionProvider.PLUGIN_ARGUMENTS.length : inheritedCount) return [];
+      members.push(this.buildConstructor(scope, parameter, isPlugin, this.getIndent(content, scope)));
+    }
+
+    if (definition && !definition.autowire) {
+      // Arguments are positional, the new one must line up with the new parameter
+      const parent = definition.parent ? serviceParser.getService(definition.parent) : null;
+      const argumentCount = (parent?.arguments?.length ?? 0) + (definition.arguments?.length ?? 0);
+      if (argumentCount !== parameterCount || !definition.sourceFile) return [];
+
+      const edit = this.buildArgumentEdit(definition, serviceName);
+      if (!edit) return [];
+      changes[`file://${definition.sourceFile}`] = [edit];
+    } else if (!isService) {
+      const create = this.findFunction(content, scope, 'create');
+
+      if (create) {
+        const instantiation = /\bnew\s+(?:static|self)\s*\(/g;
+        instantiation.lastIndex = create.bodyStart;
+        const match = instantiation.exec(content);
+        if (!match || match.index > create.bodyEnd) return [];
+
+        const open = match.index + match[0].length - 1;
+        const close = this.findClosing(content, open);
+        const expected = constructor ? parameterCount : isPlugin ? PhpCodeActionProvider.PLUGIN_ARGUMENTS.length : 0;
+        if (close < 0 || this.countArguments(content, open, close) !== expected) return [];
+
+        const container = content.substring(create.open, create.close).match(/\$(\w+)/)?.[1] ?? 'container';
+        insertions.push(this.appendArgument(content, open, close, `$${container}->get('${serviceName}')`));
+      } else {
+        // A new create() passes nothing but the plugin arguments on to an existing constructor
+        if (constructor && parameterCount !== (isPlugin ? PhpCodeActionProvider.PLUGIN_ARGUMENTS.length : 0)) return [];
+
+        const containerType = this.importClass(content, scope, PhpCodeActionProvider.CONTAINER_INTERFACE, imports);
+        members.push(this.buildCreate(serviceName, containerType, isPlugin, this.getIndent(content, scope)));
+      }
+    }
+
+    if (members.length > 0) {
+      insertions.push(this.buildMemberInsertion(content, scope, members));
+    }
+    insertions.push(...this.buildImportInsertions(content, scope, imports));
+
+    const edits = insertions.map((insertion) => TextEdit.insert(document.positionAt(insertion.offset), insertion.text));
+
+    // Rewrite every call to the service that can use $this
+    for (const match of content.matchAll(PhpCodeActionProvider.CALL_PATTERN)) {
+      const start = match.index ?? 0;
+      if (match[2] !== serviceName || start < scope.headerEnd || start > scope.bodyEnd) continue;
+      if (this.isInStaticMethod(content, scope, start)) continue;
+
+      edits.push(
+        TextEdit.replace(
+          Range.create(document.positionAt(start), document.positionAt(start + match[0].length)),
+          `$this->${property}`
+        )
+      );
+    }
+    changes[document.uri] = edits;
+
+    return [
+      {
+        title: isService
+          ? `Inject '${serviceName}' through the constructor`
+          : `Inject '${serviceName}' through create()`,
+        kind: CodeActionKind.RefactorRewrite,
+        edit: { changes }
+      }
+    ];
+  }
+
+  /**
+   * Convert a service ID to a property name, e.g. entity_type.manager → entityTypeManager
+   */
+  private toPropertyName(serviceName: string): string {
+    return serviceName
+      .split(/[._]/)
+      .filter(Boolean)
+      .map((part, index) => (index === 0 ? part : part.charAt(0).toUpperCase() + part.substring(1)))
+      .join('');
+  }
+
+  /**
+   * Prefer the interface named after the service class, e.g. EntityTypeManagerInterface
+   */
+  private getPreferredType(serviceClass: string): string {
+    const ancestors = this.classResolver.getClassAncestors(serviceClass);
+    return ancestors.names.has(`${serviceClass}Interface`) ? `${serviceClass}Interface` : serviceClass;
+  }
+
+  /**
+   * Add the service ID to the arguments of the class's service definition
+   * Handles flow lists, block lists and definitions without arguments, named arguments are left alone
+   */
+  private buildArgumentEdit(service: DrupalService, serviceName: string): TextEdit | null {
+    if (!service.sourceFile || !fs.existsSync(service.sourceFile)) return null;
+
+    const text = fs.readFileSync(service.sourceFile, 'utf-8');
+    const lines = text.split('\n');
+    const lineCounter = new YAML.LineCounter();
+    const parsed = YAML.parseDocument(text, { lineCounter });
+
+    const definition = parsed.getIn(['services', service.name], true);
+    if (!YAML.isMap(definition) || definition.flow) return null;
+
+    const position = (offset: number) => {
+      const pos = lineCounter.linePos(offset);
+      return { line: pos.line - 1, character: pos.col - 1 };
+    };
+    const lineOf = (offset: number) => position(offset).line;
+    const endOfLine = (line: number) => ({ line, character: lines[line].length });
+    const argument = `'@${serviceName}'`;
+    const args = definition.get('arguments', true);
+
+    // New arguments go after class: or before the first key, whose value may span several lines
+    if (args === undefined) {
+      const classPair = definition.items.find((pair) => YAML.isScalar(pair.key) && pair.key.value === 'class');
+      const anchor = classPair ?? definition.items[0];
+      if (!YAML.isScalar(anchor?.key) || !anchor.key.range) return null;
+
+      const line = lineOf(anchor.key.range[0]);
+      const indent = lines[line].match(/^\s*/)?.[0] ?? '';
+      return classPair
+        ? TextEdit.insert(endOfLine(line), `\n${indent}arguments: [${argument}]`)
+        : TextEdit.insert({ line, character: 0 }, `${indent}arguments: [${argument}]\n`);
+    }
+
+    if (!YAML.isSeq(args) || !args.range) return null;
+
+    const last = args.items[args.items.length - 1];
+    if (!YAML.isNode(last) || !last.range) {
+      return args.flow
+        ? TextEdit.replace(Range.create(position(args.range[0]), position(args.range[1])), `[${argument}]`)
+        : null;
+    }
+
+    if (args.flow) {
+      return TextEdit.insert(position(last.range[1]), `, ${argument}`);
+    }
+
+    const prefix = lines[lineOf(last.range[0])].match(/^\s*-\s*/)?.[0];
+    return prefix ? TextEdit.insert(endOfLine(lineOf(last.range[1])), `\n${prefix}${argument}`) : null;
+  }
+
+  private buildConstructor(scope: ClassScope, parameter: string, isPlugin: boolean, indent: string): string {
+    const parameters = [...(isPlugin ? ['array $configuration', '$plugin_id', '$plugin_definition'] : []), parameter];
+    const body = isPlugin
+      ? `{\n${indent}${indent}parent::__construct(${PhpCodeActionProvider.PLUGIN_ARGUMENTS.join(', ')});\n${indent}}`
+      : '{}';
+
+    return [
+      `${indent}/**`,
+      `${indent} * Constructs a ${scope.className} object.`,
+      `${indent} */`,
+      `${indent}public function __construct(`,
+      ...parameters.map((p) => `${indent}${indent}${p},`),
+      `${indent}) ${body}`
+    ].join('\n');
+  }
+
+  private buildCreate(serviceName: string, containerType: string, isPlugin: boolean, indent: string): string {
+    const parameters = [`${containerType} $container`];
+    const args = [`$container->get('${serviceName}')`];
+    if (isPlugin) {
+      parameters.push('array $configuration', '$plugin_id', '$plugin_definition');
+      args.unshift(...PhpCodeActionProvider.PLUGIN_ARGUMENTS);
+    }
+
+    return [
+      `${indent}/**`,
+      `${indent} * {@inheritdoc}`,
+      `${indent} */`,
+      `${indent}public static function create(${parameters.join(', ')}) {`,
+      `${indent}${indent}return new static(`,
+      ...args.map((arg) => `${indent}${indent}${indent}${arg},`),
+      `${indent}${indent});`,
+      `${indent}}`
+    ].join('\n');
+  }
+
+  /**
+   * Insert new methods before the first method of the class, including its doc comment and attributes
+   */
+  private buildMemberInsertion(content: string, scope: ClassScope, members: string[]): Insertion {
+    const method = /^[^\S\n]*(?:(?:public|protected|private|static|final|abstract)\s+)*function\s/gm;
+    method.lastIndex = scope.headerEnd;
+    const match = method.exec(content);
+
+    if (!match || match.index > scope.bodyEnd) {
+      const offset = content.lastIndexOf('\n', scope.bodyEnd) + 1;
+      return { offset, text: `\n${members.join('\n\n')}\n` };
+    }
+
+    let offset = match.index;
+    while (offset > scope.headerEnd + 1) {
+      const previous = content.lastIndexOf('\n', offset - 2) + 1;
+      if (!/^\s*(?:\/\*\*|\*|#\[)/.test(content.substring(previous, offset))) break;
+      offset = previous;
+    }
+
+    return { offset, text: `${members.join('\n\n')}\n\n` };
+  }
+
+  /**
+   * Get the name to use for a class, adding a use statement unless it's imported or in the same namespace
+   * Names taken by other imports fall back to the fully qualified name
+   */
+  private importClass(content: string, scope: ClassScope, fqcn: string, imports: Set<string>): string {
+    const shortName = fqcn.split('\\').pop() ?? fqcn;
+
+    for (const match of content.matchAll(/^use\s+\\?([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm)) {
+      if (match[1] === fqcn) return match[2] ?? shortName;
+      if ((match[2] ?? match[1].split('\\').pop()) === shortName) return `\\${fqcn}`;
+    }
+
+    if (fqcn === `${scope.namespace}\\${shortName}`) return shortName;
+    if (shortName === scope.className || [...imports].some((name) => name.endsWith(`\\${shortName}`))) {
+      return `\\${fqcn}`;
+    }
+
+    imports.add(fqcn);
+    return shortName;
+  }
+
+  /**
+   * Insert use statements in alphabetical order, or after the namespace if the file has none
+   */
+  private buildImportInsertions(content: string, scope: ClassScope, imports: Set<string>): Insertion[] {
+    const uses = [...content.substring(0, scope.start).matchAll(/^use\s+\\?([\w\\]+)[^;\n]*;[^\S\n]*\n/gm)];
+    const namespace = content.match(/^namespace\s+[^;]+;[^\S\n]*\n/m);
+    const groups = new Map<number, string[]>();
+
+    for (const fqcn of [...imports].sort()) {
+      const next = uses.find((use) => use[1].toLowerCase() > fqcn.toLowerCase());
+      const last = uses[uses.length - 1];
+      const offset = next?.index
+        ?? (last ? (last.index ?? 0) + last[0].length : (namespace?.index ?? 0) + (namespace?.[0].length ?? 0));
+
+      groups.set(offset, [...(groups.get(offset) ?? []), `use ${fqcn};\n`]);
+    }
+
+    return [...groups].map(([offset, lines]) => ({ offset, text: `${uses.length ? '' : '\n'}${lines.join('')}` }));
+  }
+
+  /**
+   * Append an argument or parameter to a list, keeping multi-line lists and trailing commas
+   */
+  private appendArgument(content: string, open: number, close: number, text: string): Insertion {
+    let last = close - 1;
+    while (last > open && /\s/.test(content[last])) last--;
+    if (last === open) return { offset: close, text };
+
+    const hasTrailingComma = content[last] === ',';
+    if (content.substring(open, close).includes('\n')) {
+      const indent = content.substring(content.lastIndexOf('\n', last) + 1).match(/^\s*/)?.[0] ?? '';
+      return { offset: last + 1, text: hasTrailingComma ? `\n${indent}${text},` : `,\n${indent}${text}` };
+    }
+
+    return { offset: last + 1, text: hasTrailingComma ? ` ${text}` : `, ${text}` };
+  }
+
+  private countArguments(content: string, open: number, close: number): number {
+    let count = 0;
+    let hasContent = false;
+
+    for (let i = open + 1; i < close; i++) {
+      const char = content[i];
+      if (char === ',') {
+        if (hasContent) count++;
+        hasContent = false;
+        continue;
+      }
+
+      if (!/\s/.test(char)) hasContent = true;
+      if (char === '"' || char === "'") {
+        i = this.skipString(content, i);
+      } else if ('([{'.includes(char)) {
+        const end = this.findClosing(content, i);
+        if (end < 0) break;
+        i = end;
+      }
+    }
+
+    return count + (hasContent ? 1 : 0);
+  }
+
+  private getIndent(content: string, scope: ClassScope): string {
+    const member = content.substring(scope.headerEnd + 1, scope.bodyEnd).match(/\n([^\S\n]+)\S/);
+    return member?.[1] ?? '  ';
+  }
+
+  private findClass(content: string): ClassScope | null {
+    const match = content.match(/^[^\S\n]*(?:(?:abstract|final|readonly)\s+)*class\s+(\w+)[^{]*\{/m);
+    if (!match || match.index === undefined) return null;
+
+    const headerEnd = match.index + match[0].length - 1;
+    const bodyEnd = this.findClosing(content, headerEnd);
+    if (bodyEnd < 0) return null;
+
+    const namespace = content.match(/^namespace\s+([^;]+);/m)?.[1];
+    return {
+      className: match[1],
+      fqcn: namespace ? `${namespace}\\${match[1]}` : match[1],
+      namespace,
+      start: match.index,
+      headerEnd,
+      bodyEnd
+    };
+  }
+
+  private findFunction(content: string, scope: ClassScope, name: string): FunctionScope | null {
+    const pattern = new RegExp(String.raw`\bfunction\s+${name}\s*\(`, 'g');
+    pattern.lastIndex = scope.headerEnd;
+    const match = pattern.exec(content);
+    if (!match || match.index > scope.bodyEnd) return null;
+
+    const open = match.index + match[0].length - 1;
+    const close = this.findClosing(content, open);
+    const bodyStart = close < 0 ? -1 : content.indexOf('{', close);
+
+    // Abstract and interface methods have no body
+    if (bodyStart < 0 || content.substring(close, bodyStart).includes(';')) return null;
+
+    const bodyEnd = this.findClosing(content, bodyStart);
+    return bodyEnd < 0 ? null : { open, close, bodyStart, bodyEnd };
+  }
+
+  private isInStaticMethod(content: string, scope: ClassScope, offset: number): boolean {
+    const methods = [
+      ...content
+        .substring(scope.headerEnd, offset)
+        .matchAll(/\b((?:(?:public|protected|private|static|final|abstract)\s+)*)function\s+\w+\s*\(/g)
+    ];
+    return methods.length > 0 && /\bstatic\b/.test(methods[methods.length - 1][1]);
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping strings and comments
+   */
+  private findClosing(content: string, openIndex: number): number {
+    let depth = 0;
+
+    for (let i = openIndex; i < content.length; i++) {
+      const char = content[i];
+
+      if (char === '"' || char === "'") {
+        i = this.skipString(content, i);
+      } else if (content.startsWith('//', i) || (char === '#' && content[i + 1] !== '[')) {
+        i = content.indexOf('\n', i);
+        if (i < 0) return -1;
+      } else if (content.startsWith('/*', i)) {
+        i = content.indexOf('*/', i + 2) + 1;
+        if (i <= 0) return -1;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char) && --depth === 0) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private skipString(content: string, start: number): number {
+    for (let i = start + 1; i < content.length; i++) {
+      if (content[i] === '\\') i++;
+      else if (content[i] === content[start]) return i;
+    }
+    return content.length;
+  }
+}
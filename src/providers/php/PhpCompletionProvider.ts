@@ -1,21 +1,54 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Position, CompletionItem, TextEdit, Range } from 'vscode-languageserver';
+import { Position, CompletionItem, CompletionItemKind, InsertTextFormat, TextEdit, Range } from 'vscode-languageserver';
 import { BaseCompletionProvider } from '../base/BaseCompletionProvider';
 import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
 import { PhpRouteNameExtractor } from './PhpRouteNameExtractor';
+import { PhpPermissionNameExtractor } from './PhpPermissionNameExtractor';
+import { PhpHookNameExtractor } from './PhpHookNameExtractor';
+import { PhpPluginIdExtractor } from './PhpPluginIdExtractor';
+import { PhpLibraryExtractor } from './PhpLibraryExtractor';
+import { PhpThemeHookExtractor, ThemeVariableContext } from './PhpThemeHookExtractor';
+import { ConfigGetterContext, PhpConfigNameExtractor } from './PhpConfigNameExtractor';
+import { PluginIdContext } from '../yaml/YamlPluginIdExtractor';
+import { LibraryContext } from '../yaml/YamlLibraryExtractor';
 import { DrupalService } from '../../parsers/YamlServiceParser';
-import { getYamlRouteParser } from '../../server';
+import { YamlRouteParser } from '../../parsers/YamlRouteParser';
+import { DrupalHook } from '../../parsers/HookParser';
+import { DrupalThemeHook } from '../../parsers/ThemeHookParser';
+import {
+  getHookParser,
+  getPluginParser,
+  getThemeHookParser,
+  getYamlConfigParser,
+  getYamlConfigSchemaParser,
+  getYamlLibraryParser,
+  getYamlPermissionParser,
+  getYamlRouteParser
+} from '../../server';
 
 /**
  * PHP Completion Provider
- * Provides autocomplete for service names and routes in DI calls
+ * Provides autocomplete for service names in DI calls, routes, route parameters, permissions, hooks, plugin IDs, libraries,
+ * theme hooks with their variables and config names with their keys
  */
 export class PhpCompletionProvider extends BaseCompletionProvider {
   private routeExtractor: PhpRouteNameExtractor;
+  private permissionExtractor: PhpPermissionNameExtractor;
+  private hookExtractor: PhpHookNameExtractor;
+  private pluginExtractor: PhpPluginIdExtractor;
+  private libraryExtractor: PhpLibraryExtractor;
+  private themeHookExtractor: PhpThemeHookExtractor;
+  private configExtractor: PhpConfigNameExtractor;
 
   constructor() {
     super(new PhpServiceNameExtractor());
     this.routeExtractor = new PhpRouteNameExtractor();
+    this.permissionExtractor = new PhpPermissionNameExtractor();
+    this.hookExtractor = new PhpHookNameExtractor();
+    this.pluginExtractor = new PhpPluginIdExtractor();
+    this.libraryExtractor = new PhpLibraryExtractor();
+    this.themeHookExtractor = new PhpThemeHookExtractor();
+    this.configExtractor = new PhpConfigNameExtractor();
   }
 
   canProvide(document: TextDocument): boolean {
@@ -28,11 +61,82 @@ export class PhpCompletionProvider extends BaseCompletionProvider {
       end: position
     });
 
+    // Check for hook implementation completion
+    if (this.hookExtractor.isHookFile(document.uri) && this.hookExtractor.getTypedFunctionName(line) !== null) {
+      return this.getHookCompletions(document, line, position);
+    }
+
+    // Check for #[Hook('...')] attribute completion
+    if (this.hookExtractor.isHookAttributeContext(line)) {
+      return this.getHookAttributeCompletions(line, position);
+    }
+
+    // Check for plugin ID completion
+    const pluginContext = this.pluginExtractor.findCompletionContext(
+      document.getText(),
+      document.offsetAt(position),
+      line
+    );
+    if (pluginContext) {
+      return this.getPluginCompletions(pluginContext, position);
+    }
+
+    // Check for '#theme' => '...' completion
+    const typedThemeHook = this.themeHookExtractor.getTypedThemeHook(line);
+    if (typedThemeHook !== null) {
+      return this.getThemeHookCompletions(typedThemeHook, position);
+    }
+
+    // Check for '#variable' key completion in render arrays with a #theme
+    const variableContext = this.themeHookExtractor.findVariableContext(
+      document.getText(),
+      document.offsetAt(position),
+      line
+    );
+    if (variableContext) {
+      return this.getThemeVariableCompletions(variableContext, position);
+    }
+
+    // Check for #attached library completion
+    const libraryContext = this.libraryExtractor.findCompletionContext(
+      document.getText(),
+      document.offsetAt(position),
+      line
+    );
+    if (libraryContext) {
+      return this.getLibraryCompletions(libraryContext, position);
+    }
+
+    // Check for config name completion in config factory calls
+    const typedConfigName = this.configExtractor.getTypedConfigName(line);
+    if (typedConfigName !== null) {
+      return this.getConfigNameCompletions(typedConfigName, position);
+    }
+
+    // Check for config key completion in ->get('...') and ->set('...') on config objects
+    const getterContext = this.configExtractor.findGetterContext(document.getText(), document.offsetAt(position));
+    if (getterContext) {
+      return this.getConfigKeyCompletions(getterContext, position);
+    }
+
+    // Check for route parameter key completion (before route names, same line may match both)
+    if (/(?:[[(,]|^)\s*['"][a-zA-Z0-9_]*$/.test(line)) {
+      const context = this.routeExtractor.findParameterContext(document.getText(), document.offsetAt(position));
+      if (context) {
+        return this.getRouteParameterCompletions(context.routeName, context.usedKeys, line, position);
+      }
+    }
+
     // Check for route completion
     if (this.routeExtractor.isRouteContext(line)) {
       return this.getRouteCompletions(document, position);
     }
 
+    // Check for permission completion
+    if (this.permissionExtractor.isPermissionContext(line)) {
+      return this.getPermissionCompletions(line, position);
+    }
+
     // Service completion (default behavior)
     return super.provideCompletions(document, position);
   }
@@ -144,4 +248,295 @@ export class PhpCompletionProvider extends BaseCompletionProvider {
 
     return this.allRoutesCompletions(allRoutes, replaceRange, typedText);
   }
+
+  private getRouteParameterCompletions(
+    routeName: string,
+    usedKeys: string[],
+    line: string,
+    position: Position
+  ): CompletionItem[] {
+    const route = getYamlRouteParser()?.getRoute(routeName);
+    if (!route || !route.path) return [];
+
+    const typedText = line.match(/([a-zA-Z0-9_]*)$/)?.[1] || '';
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return YamlRouteParser.extractPathParameters(route.path)
+      .filter((parameter) => !usedKeys.includes(parameter) || parameter === typedText)
+      .map((parameter) => {
+        const hasDefault = route.defaults !== undefined && parameter in route.defaults;
+
+        return {
+          label: parameter,
+          kind: CompletionItemKind.Property,
+          detail: hasDefault ? `optional, default: ${String(route.defaults?.[parameter])}` : 'required',
+          documentation: `Parameter of route \`${routeName}\` (${route.path})`,
+          sortText: (hasDefault ? '1_' : '0_') + parameter,
+          textEdit: TextEdit.replace(replaceRange, parameter)
+        };
+      });
+  }
+
+  private getPluginCompletions(context: PluginIdContext, position: Position): CompletionItem[] {
+    const pluginParser = getPluginParser();
+    if (!pluginParser) return [];
+
+    const plugins = context.types ? pluginParser.getPluginsByType(context.types) : pluginParser.getAllPlugins();
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allPluginsCompletions(plugins, replaceRange, context.typedText);
+  }
+
+  private getLibraryCompletions(context: LibraryContext, position: Position): CompletionItem[] {
+    const libraryParser = getYamlLibraryParser();
+    if (!libraryParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allLibrariesCompletions(libraryParser.getAllLibraries(), replaceRange, context.typedText);
+  }
+
+  private getConfigNameCompletions(typedText: string, position: Position): CompletionItem[] {
+    const configParser = getYamlConfigParser();
+    if (!configParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return configParser.getAllConfigObjects()
+      .filter((configObject) => configObject.name.toLowerCase().includes(typedText.toLowerCase()))
+      .map((configObject) => {
+        const sortPrefix = this.getSortPrefix(configObject.sourceType);
+
+        return {
+          label: configObject.name,
+          kind: CompletionItemKind.Value,
+          detail: `[${configObject.sourceType}] ${configObject.origin}`,
+          documentation: `**Config:** ${configObject.name}\n\n**Source:** ${configObject.sourceType}\n\n**File:** ${configObject.sourceFile}`,
+          sortText: this.calculateRouteMatchScore(configObject.name, typedText, sortPrefix),
+          textEdit: TextEdit.replace(replaceRange, configObject.name),
+          filterText: configObject.name
+        };
+      });
+  }
+
+  /**
+   * Complete keys of the config object from its schema, one dotted level at a time
+   */
+  private getConfigKeyCompletions(context: ConfigGetterContext, position: Position): CompletionItem[] {
+    const schemaParser = getYamlConfigSchemaParser();
+    if (!schemaParser) return [];
+
+    const data = getYamlConfigParser()?.getConfigData(context.configName) ?? {};
+    const schema = schemaParser.resolvePath(context.configName, data, context.path);
+    if (!schema?.mapping) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return Object.entries(schema.mapping).map(([key, element], index) => {
+      const child = schemaParser.resolvePath(context.configName, data, [...context.path, key]);
+
+      return {
+        label: key,
+        kind: CompletionItemKind.Property,
+        detail: child?.type ?? element.type,
+        documentation: child?.label,
+        // Keep schema order
+        sortText: index.toString().padStart(3, '0'),
+        textEdit: TextEdit.replace(replaceRange, key),
+        filterText: key
+      };
+    });
+  }
+
+  private getThemeHookCompletions(typedText: string, position: Position): CompletionItem[] {
+    const themeHookParser = getThemeHookParser();
+    if (!themeHookParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return themeHookParser.getAllThemeHooks().map((themeHook) => ({
+      label: themeHook.name,
+      kind: CompletionItemKind.Value,
+      detail: `[${themeHook.sourceType}] ${themeHook.extension}`,
+      documentation: this.buildThemeHookDocumentation(themeHook),
+      sortText: this.getSortPrefix(themeHook.sourceType) + themeHook.name,
+      textEdit: TextEdit.replace(replaceRange, themeHook.name),
+      filterText: themeHook.name
+    }));
+  }
+
+  /**
+   * Complete '#variable' keys declared by the render array's theme hook
+   */
+  private getThemeVariableCompletions(context: ThemeVariableContext, position: Position): CompletionItem[] {
+    const themeHook = getThemeHookParser()?.getThemeHook(context.themeHook);
+    if (!themeHook) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return themeHook.variables
+      .filter((variable) => !context.usedKeys.includes(variable))
+      .map((variable, index) => ({
+        label: `#${variable}`,
+        kind: CompletionItemKind.Property,
+        detail: `${themeHook.name} variable`,
+        sortText: index.toString().padStart(3, '0'),
+        textEdit: TextEdit.replace(replaceRange, variable),
+        filterText: variable
+      }));
+  }
+
+  private buildThemeHookDocumentation(themeHook: DrupalThemeHook): string {
+    let doc = `**Theme hook:** ${themeHook.name}\n\n`;
+    if (themeHook.variables.length > 0) doc += `**Variables:** ${themeHook.variables.join(', ')}\n\n`;
+    if (themeHook.renderElement) doc += `**Render element:** ${themeHook.renderElement}\n\n`;
+    doc += `**Template:** ${themeHook.template}.html.twig\n\n`;
+    doc += `**Source:** ${themeHook.sourceType}\n\n`;
+    doc += `**File:** ${themeHook.sourceFile}`;
+    return doc;
+  }
+
+  private getPermissionCompletions(line: string, position: Position): CompletionItem[] {
+    const permissionParser = getYamlPermissionParser();
+    if (!permissionParser) return [];
+
+    const typedText = this.permissionExtractor.getTypedPermission(line);
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allPermissionsCompletions(permissionParser.getAllPermissions(), replaceRange, typedText);
+  }
+
+  /**
+   * Complete "function mymodule_" into a hook implementation with docblock
+   */
+  private getHookCompletions(document: TextDocument, line: string, position: Position): CompletionItem[] {
+    const hookParser = getHookParser();
+    if (!hookParser) return [];
+
+    const moduleName = this.hookExtractor.getModuleName(document.uri);
+    const replaceRange = Range.create(
+      position.line,
+      line.indexOf('function'),
+      position.line,
+      position.character
+    );
+
+    return hookParser.getAllHooks().map((hook) => {
+      const functionName = `${moduleName}_${hook.name}`;
+
+      return {
+        label: functionName,
+        kind: CompletionItemKind.Function,
+        detail: `hook_${hook.name}(${hook.parameters})`,
+        documentation: this.buildHookDocumentation(hook),
+        sortText: this.getSortPrefix(hook.sourceType) + hook.name,
+        filterText: `function ${functionName}`,
+        insertTextFormat: InsertTextFormat.Snippet,
+        textEdit: TextEdit.replace(replaceRange, this.buildHookSnippet(hook, moduleName))
+      };
+    });
+  }
+
+  /**
+   * Complete hook names inside #[Hook('...')] attributes
+   */
+  private getHookAttributeCompletions(line: string, position: Position): CompletionItem[] {
+    const hookParser = getHookParser();
+    if (!hookParser) return [];
+
+    const typedText = this.hookExtractor.getTypedAttributeHook(line);
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return hookParser.getAllHooks().map((hook) => ({
+      label: hook.name,
+      kind: CompletionItemKind.Event,
+      detail: `hook_${hook.name}(${hook.parameters})`,
+      documentation: this.buildHookDocumentation(hook),
+      sortText: this.getSortPrefix(hook.sourceType) + hook.name,
+      insertTextFormat: InsertTextFormat.Snippet,
+      textEdit: TextEdit.replace(replaceRange, this.buildHookNameSnippet(hook))
+    }));
+  }
+
+  /**
+   * Build implementation snippet with docblock
+   */
+  private buildHookSnippet(hook: DrupalHook, moduleName: string): string {
+    return [
+      '/**',
+      ` * Implements hook_${this.escapeSnippet(hook.name)}().`,
+      ' */',
+      `function ${moduleName}_${this.buildHookNameSnippet(hook)}(${this.escapeSnippet(hook.parameters)}) {`,
+      '  $0',
+      '}'
+    ].join('\n');
+  }
+
+  /**
+   * Hook name snippet, placeholders like FORM_ID become tab stops
+   */
+  private buildHookNameSnippet(hook: DrupalHook): string {
+    let tabStop = 0;
+    return this.escapeSnippet(hook.name).replace(
+      /[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*/g,
+      (placeholder) => `\${${++tabStop}:${placeholder}}`
+    );
+  }
+
+  private escapeSnippet(text: string): string {
+    return text.replace(/[\\$}]/g, '\\$&');
+  }
+
+  private buildHookDocumentation(hook: DrupalHook): string {
+    let doc = `**Hook:** hook_${hook.name}(${hook.parameters})\n\n`;
+    if (hook.description) doc += `${hook.description}\n\n`;
+    doc += `**Source:** ${hook.sourceType}\n\n`;
+    doc += `**File:** ${hook.sourceFile}`;
+    return doc;
+  }
 }
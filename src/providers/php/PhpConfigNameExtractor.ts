@@ -0,0 +1,126 @@
+export type ConfigNameMatch = { configName: string; line: number; start: number; end: number };
+
+export type ConfigGetterContext = { configName: string; path: string[]; typedText: string };
+
+/**
+ * Extracts config object names from PHP code
+ * Handles config factory patterns:
+ * - \Drupal::config('system.site')
+ * - $this->config('system.site')
+ * - $this->configFactory->get('system.site') / ->getEditable('system.site')
+ * and keys in ->get('page.front') / ->set('page.front', ...) chained on them or on a variable holding them
+ */
+export class PhpConfigNameExtractor {
+  private static readonly CALL = String.raw`(?:\bDrupal::config|\$this->config|onfig_?[fF]actory(?:\(\))?->get|->getEditable)\s*\(\s*`;
+  private static readonly CONFIG_PATTERN = new RegExp(
+    PhpConfigNameExtractor.CALL + String.raw`(['"])([a-zA-Z0-9_.]+)\1\s*[),]`,
+    'g'
+  );
+
+  /**
+   * Get typed config name if the line ends inside a config factory call
+   */
+  getTypedConfigName(line: string): string | null {
+    const match = line.match(new RegExp(PhpConfigNameExtractor.CALL + String.raw`['"]([a-zA-Z0-9_.]*)$`));
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Find all config names in a document with their positions
+   * Concatenated names like 'views.view.' . $id are skipped
+   */
+  findConfigNames(text: string): ConfigNameMatch[] {
+    const results: ConfigNameMatch[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of lines[i].matchAll(PhpConfigNameExtractor.CONFIG_PATTERN)) {
+        const configName = match[2];
+        const start = (match.index ?? 0) + match[0].lastIndexOf(configName);
+        results.push({ configName, line: i, start, end: start + configName.length });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get key context when typing in ->get('...') or ->set('...') on a config object
+   * Keys are nested with dots, e.g. page.front
+   */
+  findGetterContext(text: string, offset: number): ConfigGetterContext | null {
+    const prefix = text.substring(0, offset);
+    const match = prefix.match(/->(?:get|set|clear|getOriginal)\s*\(\s*['"]([a-zA-Z0-9_.]*)$/);
+    if (!match) return null;
+
+    const configName = this.findReceiverConfigName(prefix.substring(0, match.index));
+    if (!configName) return null;
+
+    const path = match[1].split('.');
+    const typedText = path.pop() ?? '';
+    return { configName, path, typedText };
+  }
+
+  /**
+   * Find the config name of the object a method is called on
+   * Skips chained ->set(...) calls and follows variables to their assignment
+   */
+  private findReceiverConfigName(before: string): string | null {
+    let receiver = before.trimEnd();
+
+    for (;;) {
+      if (receiver.endsWith(')')) {
+        const open = this.findOpeningParen(receiver, receiver.length - 1);
+        if (open < 0) return null;
+
+        const callee = receiver.substring(0, open);
+        // Setters return the config object itself
+        const chained = callee.match(/->(?:set|clear|merge|setData)\s*$/);
+        const configCall = receiver.match(
+          new RegExp(PhpConfigNameExtractor.CALL + String.raw`(['"])([a-zA-Z0-9_.]+)\1\s*\)$`)
+        );
+        if (configCall) return configCall[2];
+        if (!chained) return null;
+
+        receiver = callee.substring(0, chained.index).trimEnd();
+        continue;
+      }
+
+      const variable = receiver.match(/\$(\w+)$/);
+      if (!variable || variable[1] === 'this') return null;
+
+      const assignment = new RegExp(
+        String.raw`\$${variable[1]}\s*=\s*[^;]*?` + PhpConfigNameExtractor.CALL + String.raw`(['"])([a-zA-Z0-9_.]+)\1\s*\)`,
+        'g'
+      );
+      const assignments = [...before.matchAll(assignment)];
+      return assignments.length > 0 ? assignments[assignments.length - 1][2] : null;
+    }
+  }
+
+  /**
+   * Find the parenthesis opening the one at closeIndex, skipping quoted strings
+   */
+  private findOpeningParen(text: string, closeIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = closeIndex; i >= 0; i--) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === quote && text[i - 1] !== '\\') quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === ')') depth++;
+      else if (char === '(') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -1,41 +1,77 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Position, Location, Range } from 'vscode-languageserver';
-import { IDefinitionProvider } from '../IDefinitionProvider';
-import { BaseClassResolver } from '../base/BaseClassResolver';
+import { Position, Location, Range, Definition } from 'vscode-languageserver';
+import { BaseDefinitionProvider } from '../base/BaseDefinitionProvider';
 import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
-import { getYamlServiceParser } from '../../server';
+import { PhpRouteNameExtractor } from './PhpRouteNameExtractor';
+import { PhpHookNameExtractor } from './PhpHookNameExtractor';
+import { PhpPluginIdExtractor } from './PhpPluginIdExtractor';
+import { PhpThemeHookExtractor } from './PhpThemeHookExtractor';
+import { getHookParser, getThemeHookParser, getYamlServiceParser } from '../../server';
 import * as fs from 'fs';
 import { YamlServiceParser } from '../../parsers/YamlServiceParser';
 
 /**
  * PHP Definition Provider
- * Handles go-to-definition for DI container calls
+ * Handles go-to-definition for DI container calls, routing methods, hooks, plugin IDs and theme hooks
  */
-export class PhpDefinitionProvider implements IDefinitionProvider {
+export class PhpDefinitionProvider extends BaseDefinitionProvider {
   private yamlParser: YamlServiceParser;
   private extractor: PhpServiceNameExtractor;
-  private classResolver: BaseClassResolver;
+  private routeExtractor: PhpRouteNameExtractor;
+  private hookExtractor: PhpHookNameExtractor;
+  private pluginExtractor: PhpPluginIdExtractor;
+  private themeHookExtractor: PhpThemeHookExtractor;
 
   constructor() {
+    super();
     this.extractor = new PhpServiceNameExtractor();
+    this.routeExtractor = new PhpRouteNameExtractor();
+    this.hookExtractor = new PhpHookNameExtractor();
+    this.pluginExtractor = new PhpPluginIdExtractor();
+    this.themeHookExtractor = new PhpThemeHookExtractor();
     this.yamlParser = getYamlServiceParser();
-    this.classResolver = new BaseClassResolver(this.yamlParser.getDrupalRoot());
   }
 
   canProvide(document: TextDocument): boolean {
     return document.languageId === 'php' || document.uri.endsWith('.php');
   }
 
-  async provideDefinition(document: TextDocument, position: Position): Promise<Location | null> {
+  async provideDefinition(document: TextDocument, position: Position): Promise<Definition | null> {
     const line = document.getText({
       start: { line: position.line, character: 0 },
       end: { line: position.line, character: 1000 }
     });
 
+    const hookName = this.hookExtractor.extractHookName(
+      line,
+      position.character,
+      this.hookExtractor.getModuleName(document.uri)
+    );
+    if (hookName) {
+      const location = this.resolveHookDefinition(hookName);
+      if (location) return location;
+    }
+
+    const plugin = this.pluginExtractor.extractPluginId(document.getText(), position.line, position.character);
+    if (plugin) {
+      return this.resolvePluginDefinition(plugin.pluginId, plugin.types);
+    }
+
+    const themeHookName = this.themeHookExtractor.extractThemeHook(line, position.character);
+    if (themeHookName) {
+      return this.resolveThemeHookDefinition(themeHookName);
+    }
+
+    const routeName = this.routeExtractor.extractRouteName(line, position.character);
+    if (routeName) {
+      return this.resolveRouteDefinition(routeName);
+    }
+
     const serviceName = this.extractor.extractServiceName(line, position.character);
     if (!serviceName) return null;
 
-    const service = this.yamlParser.getService(serviceName);
+    // Aliases jump to the service they resolve to
+    const service = this.yamlParser.resolveService(serviceName);
     if (!service) return null;
 
     // Priority: class definition > YAML definition
@@ -59,4 +95,32 @@ export class PhpDefinitionProvider implements IDefinitionProvider {
 
     return null;
   }
+
+  /**
+   * Jump to the hook_*() documentation function in *.api.php
+   */
+  private resolveHookDefinition(hookName: string): Location | null {
+    const hook = getHookParser()?.getHook(hookName);
+    if (!hook) return null;
+
+    const line = parseInt(hook.sourceLine, 10) - 1;
+    return Location.create(`file://${hook.sourceFile}`, Range.create(line, 0, line, 0));
+  }
+
+  /**
+   * Jump to the theme hook's template, or its hook_theme() entry when there is none
+   */
+  private async resolveThemeHookDefinition(themeHookName: string): Promise<Location | null> {
+    const parser = getThemeHookParser();
+    const themeHook = parser?.getThemeHook(themeHookName);
+    if (!themeHook) return null;
+
+    const templateFile = await parser.findTemplateFile(themeHook);
+    if (templateFile) {
+      return Location.create(`file://${templateFile}`, Range.create(0, 0, 0, 0));
+    }
+
+    const line = parseInt(themeHook.sourceLine, 10) - 1;
+    return Location.create(`file://${themeHook.sourceFile}`, Range.create(line, 0, line, 0));
+  }
 }
@@ -1,16 +1,40 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Diagnostic } from 'vscode-languageserver';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
 import { IDiagnosticProvider } from '../IDiagnosticProvider';
 import { BaseDiagnosticProvider } from '../base/BaseDiagnosticProvider';
-import { getPhpCsProvider, getYamlRouteParser } from '../../server';
+import { PhpPermissionNameExtractor } from './PhpPermissionNameExtractor';
+import { PhpRouteNameExtractor } from './PhpRouteNameExtractor';
+import { PhpHookNameExtractor } from './PhpHookNameExtractor';
+import { PhpPluginIdExtractor } from './PhpPluginIdExtractor';
+import { PhpLibraryExtractor } from './PhpLibraryExtractor';
+import { PhpConfigNameExtractor } from './PhpConfigNameExtractor';
+import { YamlRouteParser } from '../../parsers/YamlRouteParser';
+import { HookParser } from '../../parsers/HookParser';
+import { EventSubscriberParser } from '../../parsers/EventSubscriberParser';
+import { BaseClassResolver } from '../base/BaseClassResolver';
+import { getHookParser, getPhpCsProvider, getYamlRouteParser, getYamlServiceParser } from '../../server';
 
 /**
  * PHP Diagnostic Provider
- * Validates service names and routes in DI container calls and PHPCS diagnostics
+ * Validates service names in DI container calls, routes, permissions, hooks, plugin IDs, libraries, config names,
+ * event subscriber methods and PHPCS diagnostics
  */
 export class PhpDiagnosticProvider extends BaseDiagnosticProvider implements IDiagnosticProvider {
+  private permissionExtractor: PhpPermissionNameExtractor;
+  private routeExtractor: PhpRouteNameExtractor;
+  private hookExtractor: PhpHookNameExtractor;
+  private pluginExtractor: PhpPluginIdExtractor;
+  private libraryExtractor: PhpLibraryExtractor;
+  private configExtractor: PhpConfigNameExtractor;
+
   constructor() {
     super();
+    this.permissionExtractor = new PhpPermissionNameExtractor();
+    this.routeExtractor = new PhpRouteNameExtractor();
+    this.hookExtractor = new PhpHookNameExtractor();
+    this.pluginExtractor = new PhpPluginIdExtractor();
+    this.libraryExtractor = new PhpLibraryExtractor();
+    this.configExtractor = new PhpConfigNameExtractor();
   }
 
   canProvide(document: TextDocument): boolean {
@@ -67,8 +91,62 @@ export class PhpDiagnosticProvider extends BaseDiagnosticProvider implements IDi
           )
         );
       }
+
+      // Permission validation
+      for (const match of this.permissionExtractor.extractAllPermissions(line)) {
+        if (!this.permissionExists(match.permissionName)) {
+          diagnostics.push(
+            this.createPermissionNotFoundDiagnostic(
+              lineNum,
+              match.start,
+              match.end,
+              match.permissionName
+            )
+          );
+        }
+      }
     }
 
+    // Route parameters validation (arrays may span multiple lines)
+    diagnostics.push(...this.validateRouteParameters(document));
+
+    // Hook implementations in .module, .install and .theme files
+    diagnostics.push(...this.validateHooks(document));
+
+    // #[Hook('...')] attributes
+    diagnostics.push(...this.validateHookAttributes(document));
+
+    // Plugin IDs (display options arrays may span multiple lines)
+    // createInstance() may target YAML-defined plugins like layouts or migrations, which aren't indexed
+    for (const match of this.pluginExtractor.findPluginIds(text)) {
+      if (match.types && !this.pluginExists(match.pluginId, match.types)) {
+        diagnostics.push(
+          this.createPluginNotFoundDiagnostic(match.line, match.start, match.end, match.pluginId)
+        );
+      }
+    }
+
+    // #attached libraries (arrays may span multiple lines)
+    for (const match of this.libraryExtractor.findLibraries(text)) {
+      if (!this.libraryExists(match.library)) {
+        diagnostics.push(
+          this.createLibraryNotFoundDiagnostic(match.line, match.start, match.end, match.library)
+        );
+      }
+    }
+
+    // Config object names in config factory calls
+    for (const match of this.configExtractor.findConfigNames(text)) {
+      if (!this.configExists(match.configName)) {
+        diagnostics.push(
+          this.createConfigNotFoundDiagnostic(match.line, match.start, match.end, match.configName)
+        );
+      }
+    }
+
+    // Listener methods in getSubscribedEvents()
+    diagnostics.push(...this.validateEventSubscriptions(document));
+
     // PHPCS diagnostics
     try {
       const phpCsProvider = getPhpCsProvider();
@@ -90,7 +168,8 @@ export class PhpDiagnosticProvider extends BaseDiagnosticProvider implements IDi
     const results: Array<{ serviceName: string; start: number; end: number }> = [];
 
     // Pattern 1: ::service('service_name') - closing quote optional
-    const servicePattern = /::service\s*\(\s*['"]([a-z0-9._]+)['"]?/gi;
+    // Backslashes allow autowired services keyed by class name
+    const servicePattern = /::service\s*\(\s*['"]([a-z0-9._\\]+)['"]?/gi;
     let match;
 
     while ((match = servicePattern.exec(line)) !== null) {
@@ -103,7 +182,7 @@ export class PhpDiagnosticProvider extends BaseDiagnosticProvider implements IDi
     }
 
     // Pattern 2: ->get('service_name') - closing quote optional
-    const getPattern = /(?:\$this|\$container|\$this->container)->get\s*\(\s*['"]([a-z0-9._]+)['"]?/gi;
+    const getPattern = /(?:\$this|\$container|\$this->container)->get\s*\(\s*['"]([a-z0-9._\\]+)['"]?/gi;
 
     while ((match = getPattern.exec(line)) !== null) {
       const serviceName = match[1];
@@ -149,62 +228,161 @@ export class PhpDiagnosticProvider extends BaseDiagnosticProvider implements IDi
     }
 
     // Pattern 3: Link::createFromRoute('title', 'route_name', ...)
-    const linkPattern = /Link::createFromRoute\s*\([^,]+,\s*['"]([a-z0-9._]+)/gi;
+    results.push(...this.routeExtractor.findLinkRoutes(line));
 
-    while ((match = linkPattern.exec(line)) !== null) {
-      const routeName = match[1];
-      const fullMatch = match[0];
-      const start = match.index + fullMatch.indexOf(routeName);
-      const end = start + routeName.length;
+    return results;
+  }
 
-      results.push({ routeName, start, end });
+  /**
+   * Compare {slug} placeholders of route paths with literal keys of the parameters array
+   */
+  private validateRouteParameters(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const routeParser = getYamlRouteParser();
+    if (!routeParser) return diagnostics;
+
+    for (const call of this.routeExtractor.findRouteCalls(document.getText())) {
+      // Parameters built at runtime can't be validated
+      if (call.parameters === 'dynamic') continue;
+
+      const route = routeParser.getRoute(call.routeName);
+      if (!route || !route.path) continue;
+
+      const pathParameters = YamlRouteParser.extractPathParameters(route.path);
+      const passedKeys = call.parameters || [];
+      const routeRange = Range.create(document.positionAt(call.start), document.positionAt(call.end));
+
+      for (const parameter of pathParameters) {
+        if (passedKeys.some((p) => p.key === parameter)) continue;
+
+        if (route.defaults && parameter in route.defaults) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Hint,
+            range: routeRange,
+            message: `Route parameter '${parameter}' not passed, default '${String(route.defaults[parameter])}' is used`,
+            source: 'drupal-lsp'
+          });
+        } else {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: routeRange,
+            message: `Missing required parameter '${parameter}' for route '${call.routeName}'`,
+            source: 'drupal-lsp'
+          });
+        }
+      }
+
+      // The URL generator adds keys that aren't path parameters to the query string
+      for (const passed of passedKeys) {
+        if (pathParameters.includes(passed.key)) continue;
+
+        diagnostics.push({
+          severity: DiagnosticSeverity.Information,
+          range: Range.create(document.positionAt(passed.start), document.positionAt(passed.end)),
+          message: `Parameter '${passed.key}' is not in the path of route '${call.routeName}' (${route.path}), it will be added as a query parameter`,
+          source: 'drupal-lsp'
+        });
+      }
     }
 
-    return results;
+    return diagnostics;
   }
 
-  private routeExists(routeName: string): boolean {
-    const routeParser = getYamlRouteParser();
-    if (!routeParser) return true; // Skip validation if parser not available
+  /**
+   * Validate functions named like hooks against the *.api.php index
+   * A function is treated as a hook implementation if it has an "Implements hook_*()." docblock
+   * or its name ends with _alter
+   */
+  private validateHooks(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!this.hookExtractor.isHookFile(document.uri)) return diagnostics;
+
+    // Without indexed API files every hook would be reported
+    const hookParser = getHookParser();
+    if (!hookParser || hookParser.getAllHooks().length === 0) return diagnostics;
+
+    const moduleName = this.hookExtractor.getModuleName(document.uri);
+    for (const implementation of this.hookExtractor.findHookImplementations(document.getText(), moduleName)) {
+      const range = Range.create(implementation.line, implementation.start, implementation.line, implementation.end);
+      const hookName = implementation.documentedHook ?? implementation.hookName;
+
+      if (!implementation.documentedHook && !implementation.hookName.endsWith('_alter')) continue;
+
+      if (!hookParser.getHook(hookName)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range,
+          message: `Unknown hook 'hook_${hookName}'`,
+          source: 'drupal-lsp'
+        });
+        continue;
+      }
 
-    const availableRoutes = new Set(routeParser.getAllRouteNames());
-    return availableRoutes.has(routeName);
+      // Function name must implement the documented hook
+      if (implementation.documentedHook && !new RegExp(HookParser.buildPattern(hookName)).test(implementation.hookName)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range,
+          message: `Function '${implementation.functionName}' does not implement 'hook_${hookName}', expected '${moduleName}_${hookName}'`,
+          source: 'drupal-lsp'
+        });
+      }
+    }
+
+    return diagnostics;
   }
 
   /**
-   * Check if route is a dynamic route pattern that we can't validate
-   * Only returns true for routes that START with dynamic prefix but are NOT in our known routes
-   * This is more permissive - we only skip validation if it looks like a custom dynamic route
+   * Validate hook names in #[Hook('...')] attributes against *.api.php
    */
-  private isDynamicRoutePattern(routeName: string): boolean {
-    const dynamicPrefixes = [
-      'view.',           // Custom views - view.my_view.page_1
-      'rest.',           // REST resources
-      'jsonapi.',        // JSON:API resources
-      'layout_builder.', // Layout builder
-      'field_ui.'       // Field UI
-    ];
-
-    // Check if it matches a dynamic pattern
-    // Note: entity.* routes are NOT in this list because we have common entity routes
-    // If entity.node.canonical is misspelled (entity.node.canonicals), we WANT to show an error
-    return dynamicPrefixes.some((prefix) => routeName.startsWith(prefix));
+  private validateHookAttributes(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    // Without indexed API files every hook would be reported
+    const hookParser = getHookParser();
+    if (!hookParser || hookParser.getAllHooks().length === 0) return diagnostics;
+
+    for (const attribute of this.hookExtractor.findHookAttributes(document.getText())) {
+      if (hookParser.getHook(attribute.hookName)) continue;
+
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(attribute.line, attribute.start, attribute.line, attribute.end),
+        message: `Unknown hook 'hook_${attribute.hookName}'`,
+        source: 'drupal-lsp'
+      });
+    }
+
+    return diagnostics;
   }
 
-  private createRouteNotFoundDiagnostic(
-    line: number,
-    startChar: number,
-    endChar: number,
-    routeName: string
-  ): Diagnostic {
-    return {
-      severity: 1, // Error
-      range: {
-        start: { line, character: startChar },
-        end: { line, character: endChar }
-      },
-      message: `Route '${routeName}' not found`,
-      source: 'drupal-lsp'
-    };
+  /**
+   * Validate that methods named in getSubscribedEvents() exist in the subscriber class
+   * Classes with unresolvable parents or traits are skipped, the methods may be inherited
+   */
+  private validateEventSubscriptions(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const text = document.getText();
+
+    const subscriptions = EventSubscriberParser.findSubscriptions(text);
+    if (subscriptions.length === 0) return diagnostics;
+
+    const classResolver = new BaseClassResolver(getYamlServiceParser().getDrupalRoot());
+    const methods = classResolver.getClassMethods(text);
+    if (!methods) return diagnostics;
+
+    const className = text.match(/\bclass\s+(\w+)/)?.[1] ?? 'class';
+    for (const subscription of subscriptions) {
+      if (methods.has(subscription.methodName)) continue;
+
+      diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: Range.create(subscription.line, subscription.start, subscription.line, subscription.end),
+        message: `Method '${subscription.methodName}' subscribed to '${subscription.event}' does not exist in ${className}`,
+        source: 'drupal-lsp'
+      });
+    }
+
+    return diagnostics;
   }
 }
@@ -0,0 +1,42 @@
+export type EventNameMatch = { expression: string; isConstant: boolean; start: number; end: number };
+
+/**
+ * Extracts event names from PHP code
+ * Events are referenced by class constants like KernelEvents::REQUEST or ConfigEvents::SAVE,
+ * by class name like RequestEvent::class or by strings like 'config.save'
+ */
+export class PhpEventNameExtractor {
+  private static readonly CONSTANT_PATTERN = /\\?[A-Za-z_][\w\\]*::(?:[A-Z][A-Z0-9_]*|class)\b/g;
+  private static readonly STRING_PATTERN = /(['"])([\w.:\\-]+)\1/g;
+
+  /**
+   * Extract the event constant or string at given character position
+   * Strings only name an event if something subscribes to it, which callers check
+   */
+  extractEventName(line: string, character: number): EventNameMatch | null {
+    for (const match of line.matchAll(PhpEventNameExtractor.CONSTANT_PATTERN)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (character >= start && character <= end) {
+        return { expression: match[0], isConstant: true, start, end };
+      }
+    }
+
+    for (const match of line.matchAll(PhpEventNameExtractor.STRING_PATTERN)) {
+      const start = (match.index ?? 0) + 1;
+      const end = start + match[2].length;
+      if (character >= start && character <= end) {
+        return { expression: match[2], isConstant: false, start, end };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if a constant belongs to an events class like KernelEvents, which lists event names
+   */
+  isEventsClassConstant(expression: string): boolean {
+    return /Events::[A-Z]/.test(expression);
+  }
+}
@@ -0,0 +1,172 @@
+import * as path from 'path';
+
+export interface HookImplementation {
+  functionName: string;
+  hookName: string; // Function name without the module prefix
+  documentedHook?: string; // From an "Implements hook_*()." docblock
+  line: number;
+  start: number;
+  end: number;
+}
+
+export interface HookAttributeMatch {
+  hookName: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Extracts hook implementations from PHP code
+ * Procedural hooks in .module, .install and .theme files are functions prefixed with the module name:
+ * - function mymodule_form_alter(...)
+ * - "Implements hook_form_alter()." docblock above the function
+ * OOP hooks (Drupal 11.1+) are methods with an attribute:
+ * - #[Hook('form_alter')]
+ */
+export class PhpHookNameExtractor {
+  static readonly HOOK_FILE_EXTENSIONS = ['module', 'install', 'theme'];
+
+  private static readonly ATTRIBUTE_PATTERN = /#\[Hook\(\s*(?:hook:\s*)?(['"])([a-zA-Z0-9_]*)/g;
+
+  /**
+   * Check if file can contain procedural hook implementations
+   */
+  isHookFile(uri: string): boolean {
+    const extension = uri.split('.').pop() || '';
+    return PhpHookNameExtractor.HOOK_FILE_EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * Get module (or theme) name from file name, e.g. mymodule.module => mymodule
+   */
+  getModuleName(uri: string): string {
+    return path.basename(uri.replace('file://', '')).split('.')[0];
+  }
+
+  /**
+   * Get typed function name while declaring a function
+   * Matches "function mymodule_" at the end of the line
+   */
+  getTypedFunctionName(line: string): string | null {
+    const match = line.match(/^\s*function\s+([a-zA-Z0-9_]*)$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Check if line is inside the hook name of a #[Hook('...')] attribute
+   * Matches while typing (no closing quote yet)
+   */
+  isHookAttributeContext(line: string): boolean {
+    return /#\[Hook\(\s*(?:hook:\s*)?['"][a-zA-Z0-9_]*$/.test(line);
+  }
+
+  /**
+   * Extract typed hook name for autocomplete
+   */
+  getTypedAttributeHook(line: string): string {
+    const match = line.match(/['"]([a-zA-Z0-9_]*)$/);
+    return match ? match[1] : '';
+  }
+
+  /**
+   * Find all hook names in #[Hook] attributes with their positions
+   */
+  findHookAttributes(text: string): HookAttributeMatch[] {
+    const results: HookAttributeMatch[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of this.matchAttributes(lines[i])) {
+        results.push({ ...match, line: i });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find all top-level functions named like hook implementations of the module
+   */
+  findHookImplementations(text: string, moduleName: string): HookImplementation[] {
+    const results: HookImplementation[] = [];
+    const lines = text.split('\n');
+    const prefix = `${moduleName}_`;
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(/^function\s+([a-zA-Z0-9_]+)\s*\(/);
+      if (!match || !match[1].startsWith(prefix)) continue;
+
+      const functionName = match[1];
+      const start = lines[i].indexOf(functionName);
+
+      results.push({
+        functionName,
+        hookName: functionName.substring(prefix.length),
+        documentedHook: this.findDocumentedHook(lines, i),
+        line: i,
+        start,
+        end: start + functionName.length
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract hook name at given character position
+   * Works on #[Hook] attributes, the function name and on hook_* references in comments
+   */
+  extractHookName(line: string, character: number, moduleName: string): string | null {
+    const attribute = this.matchAttributes(line)
+      .find((m) => character >= m.start && character <= m.end);
+    if (attribute) return attribute.hookName;
+
+    const functionMatch = line.match(/^function\s+([a-zA-Z0-9_]+)\s*\(/);
+    if (functionMatch && functionMatch[1].startsWith(`${moduleName}_`)) {
+      const start = line.indexOf(functionMatch[1]);
+      if (character >= start && character <= start + functionMatch[1].length) {
+        return functionMatch[1].substring(moduleName.length + 1);
+      }
+    }
+
+    for (const match of line.matchAll(/\bhook_([a-zA-Z0-9_]+)/g)) {
+      const start = match.index ?? 0;
+      if (character >= start && character <= start + match[0].length) {
+        return match[1];
+      }
+    }
+
+    return null;
+  }
+
+  private matchAttributes(line: string): Array<Omit<HookAttributeMatch, 'line'>> {
+    const results: Array<Omit<HookAttributeMatch, 'line'>> = [];
+
+    for (const match of line.matchAll(PhpHookNameExtractor.ATTRIBUTE_PATTERN)) {
+      const hookName = match[2];
+      if (!hookName) continue;
+
+      const start = (match.index ?? 0) + match[0].length - hookName.length;
+      results.push({ hookName, start, end: start + hookName.length });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find "Implements hook_*()." in the docblock right above a function
+   */
+  private findDocumentedHook(lines: string[], functionLine: number): string | undefined {
+    if (functionLine === 0 || lines[functionLine - 1].trim() !== '*/') return undefined;
+
+    for (let i = functionLine - 2; i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      const match = trimmed.match(/^\*\s*Implements\s+hook_([a-zA-Z0-9_]+)\(\)/);
+      if (match) return match[1];
+      if (trimmed.startsWith('/**')) break;
+    }
+
+    return undefined;
+  }
+}
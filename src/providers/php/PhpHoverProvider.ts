@@ -5,22 +5,40 @@ import { BaseServiceProvider } from '../base/BaseServiceProvider';
 import { BaseClassResolver } from '../base/BaseClassResolver';
 import { HoverContentBuilder } from '../base/HoverContentBuilder';
 import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
-import { getYamlServiceParser } from '../../server';
+import { PhpPermissionNameExtractor } from './PhpPermissionNameExtractor';
+import { PhpRouteNameExtractor } from './PhpRouteNameExtractor';
+import { PhpHookNameExtractor } from './PhpHookNameExtractor';
+import { PhpEventNameExtractor, EventNameMatch } from './PhpEventNameExtractor';
+import {
+  getEventSubscriberParser,
+  getHookParser,
+  getYamlPermissionParser,
+  getYamlRouteParser,
+  getYamlServiceParser
+} from '../../server';
 import { YamlServiceParser } from '../../parsers/YamlServiceParser';
 
 /**
  * PHP Hover Provider
- * Shows service information on hover in PHP files
+ * Shows service, route, permission, hook and event subscriber information on hover in PHP files
  */
 export class PhpHoverProvider extends BaseServiceProvider implements IHoverProvider {
   private yamlParser: YamlServiceParser;
   private extractor: PhpServiceNameExtractor;
+  private permissionExtractor: PhpPermissionNameExtractor;
+  private routeExtractor: PhpRouteNameExtractor;
+  private hookExtractor: PhpHookNameExtractor;
+  private eventExtractor: PhpEventNameExtractor;
   private readonly classResolver: BaseClassResolver;
   private contentBuilder: HoverContentBuilder;
 
   constructor() {
     super();
     this.extractor = new PhpServiceNameExtractor();
+    this.permissionExtractor = new PhpPermissionNameExtractor();
+    this.routeExtractor = new PhpRouteNameExtractor();
+    this.hookExtractor = new PhpHookNameExtractor();
+    this.eventExtractor = new PhpEventNameExtractor();
     this.yamlParser = getYamlServiceParser();
     this.classResolver = new BaseClassResolver(this.yamlParser.getDrupalRoot());
     this.contentBuilder = new HoverContentBuilder(this.classResolver);
@@ -36,6 +54,32 @@ export class PhpHoverProvider extends BaseServiceProvider implements IHoverProvi
       end: { line: position.line, character: 1000 }
     });
 
+    const hookName = this.hookExtractor.extractHookName(
+      line,
+      position.character,
+      this.hookExtractor.getModuleName(document.uri)
+    );
+    if (hookName) {
+      const hover = await this.buildHookHover(hookName);
+      if (hover) return hover;
+    }
+
+    const routeName = this.routeExtractor.extractRouteName(line, position.character);
+    if (routeName) {
+      return this.buildRouteHover(routeName);
+    }
+
+    const permissionName = this.permissionExtractor.extractPermissionName(line, position.character);
+    if (permissionName) {
+      return this.buildPermissionHover(permissionName);
+    }
+
+    const eventName = this.eventExtractor.extractEventName(line, position.character);
+    if (eventName) {
+      const hover = await this.buildEventHover(document.getText(), eventName);
+      if (hover) return hover;
+    }
+
     const serviceName = this.extractor.extractServiceName(line, position.character);
     if (!serviceName) {
       return null;
@@ -62,4 +106,69 @@ export class PhpHoverProvider extends BaseServiceProvider implements IHoverProvi
       }
     };
   }
+
+  private async buildRouteHover(routeName: string): Promise<Hover> {
+    const route = getYamlRouteParser().getRoute(routeName);
+    const content = route
+      ? await this.contentBuilder.buildRouteHover(route)
+      : this.contentBuilder.buildUndefinedRouteHover(routeName);
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content
+      }
+    };
+  }
+
+  private buildPermissionHover(permissionName: string): Hover {
+    const permission = getYamlPermissionParser().getPermission(permissionName);
+    const content = permission
+      ? this.contentBuilder.buildPermissionHover(permission, permissionName)
+      : this.contentBuilder.buildUndefinedPermissionHover(permissionName);
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content
+      }
+    };
+  }
+
+  /**
+   * Functions that don't match a known hook are regular helpers, no hover
+   */
+  private async buildHookHover(hookName: string): Promise<Hover | null> {
+    const hook = getHookParser()?.getHook(hookName);
+    if (!hook) return null;
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: await this.contentBuilder.buildHookHover(hook)
+      }
+    };
+  }
+
+  /**
+   * Constants of events classes always show their subscribers,
+   * other constants and strings only if something subscribes to them
+   */
+  private async buildEventHover(text: string, match: EventNameMatch): Promise<Hover | null> {
+    const eventParser = getEventSubscriberParser();
+    if (!eventParser) return null;
+
+    const event = match.isConstant ? eventParser.resolveEventName(text, match.expression) : match.expression;
+    const subscriptions = eventParser.getSubscriptions(event);
+    if (subscriptions.length === 0 && !(match.isConstant && this.eventExtractor.isEventsClassConstant(match.expression))) {
+      return null;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: await this.contentBuilder.buildEventHover(event, subscriptions)
+      }
+    };
+  }
 }
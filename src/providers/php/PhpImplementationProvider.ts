@@ -0,0 +1,55 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Location, Position } from 'vscode-languageserver';
+import { IImplementationProvider } from '../IImplementationProvider';
+import { BaseClassResolver } from '../base/BaseClassResolver';
+import { UsageLocator } from '../base/UsageLocator';
+import { PhpEventNameExtractor } from './PhpEventNameExtractor';
+import { getEventSubscriberParser, getYamlServiceParser } from '../../server';
+
+/**
+ * PHP Implementation Provider
+ * Goes to the subscriber methods of an event constant or name
+ */
+export class PhpImplementationProvider implements IImplementationProvider {
+  private eventExtractor: PhpEventNameExtractor;
+  private classResolver: BaseClassResolver;
+  private locator: UsageLocator;
+
+  constructor() {
+    this.eventExtractor = new PhpEventNameExtractor();
+    this.classResolver = new BaseClassResolver(getYamlServiceParser().getDrupalRoot());
+    this.locator = new UsageLocator();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'php' || document.uri.endsWith('.php');
+  }
+
+  async provideImplementation(document: TextDocument, position: Position): Promise<Location[]> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    const eventParser = getEventSubscriberParser();
+    const match = this.eventExtractor.extractEventName(line, position.character);
+    if (!match || !eventParser) return [];
+
+    const event = match.isConstant
+      ? eventParser.resolveEventName(document.getText(), match.expression)
+      : match.expression;
+
+    const locations: Location[] = [];
+    for (const subscription of eventParser.getSubscriptions(event)) {
+      const methodLine = await this.classResolver.getSymbolLocation(subscription.sourceFile, subscription.methodName);
+      locations.push(
+        Location.create(
+          `file://${subscription.sourceFile}`,
+          this.locator.findNameRange(subscription.sourceFile, methodLine, subscription.methodName)
+        )
+      );
+    }
+
+    return locations;
+  }
+}
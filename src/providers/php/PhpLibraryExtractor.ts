@@ -0,0 +1,124 @@
+import { LibraryContext, LibraryMatch } from '../yaml/YamlLibraryExtractor';
+
+/**
+ * Extracts library IDs from PHP code
+ * Handles Drupal attachment patterns:
+ * - '#attached' => ['library' => ['core/drupal.dialog']]
+ * - $build['#attached']['library'][] = 'core/drupal.dialog';
+ */
+export class PhpLibraryExtractor {
+  private static readonly LIBRARY_ARRAY_PATTERN = /['"]library['"]\s*=>\s*(\[|array\s*\()/g;
+  private static readonly LIBRARY_APPEND_PATTERN = /\[\s*['"]library['"]\s*\]\s*\[\s*\]\s*=\s*(['"])([^'"\n]*)/g;
+  private static readonly STRING_PATTERN = /(['"])([^'"\n]*)\1/g;
+
+  /**
+   * Get completion context for the line before the cursor
+   * Library arrays need the document text to find the enclosing array
+   */
+  findCompletionContext(text: string, offset: number, line: string): LibraryContext | null {
+    const appendMatch = line.match(/\[\s*['"]library['"]\s*\]\s*\[\s*\]\s*=\s*['"]([^'"]*)$/);
+    if (appendMatch) return { typedText: appendMatch[1] };
+
+    const itemMatch = line.match(/(?:[[(,]|^)\s*['"]([^'"]*)$/);
+    if (itemMatch && this.findLibraryArrays(text).some((a) => offset > a.start && offset <= a.end)) {
+      return { typedText: itemMatch[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find all library IDs in a document with their positions
+   */
+  findLibraries(text: string): LibraryMatch[] {
+    const results: LibraryMatch[] = [];
+    const lineStarts = this.getLineStarts(text);
+
+    // Interpolated libraries like "my_module/$name" are only known at runtime
+    const push = (library: string, offset: number, quote: string) => {
+      if (!library || (quote === '"' && library.includes('$'))) return;
+
+      const line = this.lineAt(lineStarts, offset);
+      const start = offset - lineStarts[line];
+      results.push({ library, line, start, end: start + library.length });
+    };
+
+    for (const match of text.matchAll(PhpLibraryExtractor.LIBRARY_APPEND_PATTERN)) {
+      push(match[2], (match.index ?? 0) + match[0].length - match[2].length, match[1]);
+    }
+
+    for (const array of this.findLibraryArrays(text)) {
+      const body = text.substring(array.start, array.end);
+      for (const match of body.matchAll(PhpLibraryExtractor.STRING_PATTERN)) {
+        push(match[2], array.start + (match.index ?? 0) + 1, match[1]);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract library ID at given position
+   */
+  extractLibrary(text: string, lineNumber: number, character: number): LibraryMatch | null {
+    return this.findLibraries(text)
+      .find((m) => m.line === lineNumber && character >= m.start && character <= m.end) || null;
+  }
+
+  /**
+   * Find 'library' => [...] arrays with their offsets
+   * Unterminated arrays extend to the end of the document
+   */
+  private findLibraryArrays(text: string): Array<{ start: number; end: number }> {
+    const results: Array<{ start: number; end: number }> = [];
+
+    for (const match of text.matchAll(PhpLibraryExtractor.LIBRARY_ARRAY_PATTERN)) {
+      const start = (match.index ?? 0) + match[0].length - 1;
+      const end = this.findClosingBracket(text, start);
+      results.push({ start, end: end < 0 ? text.length : end });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(text: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[') depth++;
+      else if (char === ')' || char === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+  }
+
+  private lineAt(lineStarts: number[], offset: number): number {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line;
+  }
+}
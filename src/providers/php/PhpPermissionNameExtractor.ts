@@ -0,0 +1,59 @@
+import { PermissionMatch } from '../yaml/YamlPermissionNameExtractor';
+
+/**
+ * Extracts permission names from PHP code
+ * Handles Drupal access patterns:
+ * - $account->hasPermission('permission')
+ * - AccessResult::allowedIfHasPermission($account, 'permission')
+ */
+export class PhpPermissionNameExtractor {
+  private static readonly PATTERNS = [
+    /->hasPermission\s*\(\s*(['"])([^'"]*)/g,
+    /AccessResult::allowedIfHasPermission\s*\([^,]+,\s*(['"])([^'"]*)/g
+  ];
+
+  /**
+   * Check if line is in permission context
+   * Matches while typing (no closing quote yet)
+   */
+  isPermissionContext(line: string): boolean {
+    return /(?:->hasPermission\s*\(|AccessResult::allowedIfHasPermission\s*\([^,]+,)\s*['"][^'"]*$/.test(line);
+  }
+
+  /**
+   * Extract typed permission for autocomplete
+   */
+  getTypedPermission(line: string): string {
+    const match = line.match(/['"]([^'"]*)$/);
+    return match ? match[1] : '';
+  }
+
+  /**
+   * Extract all permission names with their positions
+   */
+  extractAllPermissions(line: string): PermissionMatch[] {
+    const results: PermissionMatch[] = [];
+
+    for (const pattern of PhpPermissionNameExtractor.PATTERNS) {
+      for (const match of line.matchAll(pattern)) {
+        const permissionName = match[2];
+        // Interpolated names like "edit $type content" are only known at runtime
+        if (!permissionName || (match[1] === '"' && permissionName.includes('$'))) continue;
+
+        const start = (match.index ?? 0) + match[0].length - permissionName.length;
+        results.push({ permissionName, start, end: start + permissionName.length });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract permission name at given character position
+   */
+  extractPermissionName(line: string, character: number): string | null {
+    const match = this.extractAllPermissions(line)
+      .find((m) => character >= m.start && character <= m.end);
+    return match ? match.permissionName : null;
+  }
+}
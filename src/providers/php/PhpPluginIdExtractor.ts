@@ -0,0 +1,156 @@
+import { PluginIdContext, PluginIdMatch } from '../yaml/YamlPluginIdExtractor';
+
+type PluginIdPattern = { pattern: RegExp; context: RegExp; types: string[] | null };
+
+/**
+ * Extracts plugin IDs from PHP code
+ * Handles Drupal plugin patterns:
+ * - $manager->createInstance('plugin_id') (any plugin type)
+ * - '#type' => 'textfield' (render and form elements)
+ * - BaseFieldDefinition::create('string') (field types)
+ * - ->setDisplayOptions('view', ['type' => 'string']) (field formatters, 'form' for widgets)
+ */
+export class PhpPluginIdExtractor {
+  private static readonly PATTERNS: PluginIdPattern[] = [
+    {
+      pattern: /->createInstance\s*\(\s*(['"])([^'"\n]*)/g,
+      context: /->createInstance\s*\(\s*['"]([^'"]*)$/,
+      types: null
+    },
+    {
+      pattern: /['"]#type['"]\s*=>\s*(['"])([^'"\n]*)/g,
+      context: /['"]#type['"]\s*=>\s*['"]([^'"]*)$/,
+      types: ['RenderElement', 'FormElement']
+    },
+    {
+      pattern: /BaseFieldDefinition::create\s*\(\s*(['"])([^'"\n]*)/g,
+      context: /BaseFieldDefinition::create\s*\(\s*['"]([^'"]*)$/,
+      types: ['FieldType']
+    }
+  ];
+
+  private static readonly DISPLAY_OPTIONS_PATTERN = /->setDisplayOptions\s*\(\s*['"](view|form)['"]\s*,\s*(\[|array\s*\()/g;
+  private static readonly DISPLAY_TYPE_PATTERN = /['"]type['"]\s*=>\s*(['"])([^'"\n]*)/g;
+
+  /**
+   * Get completion context for the line before the cursor
+   * Display options need the document text to find the enclosing array
+   */
+  findCompletionContext(text: string, offset: number, line: string): PluginIdContext | null {
+    for (const { context, types } of PhpPluginIdExtractor.PATTERNS) {
+      const match = line.match(context);
+      if (match) return { types, typedText: match[1] };
+    }
+
+    const typeMatch = line.match(/['"]type['"]\s*=>\s*['"]([^'"]*)$/);
+    if (typeMatch) {
+      const display = this.findDisplayOptions(text).find((d) => offset > d.start && offset <= d.end);
+      if (display) return { types: this.getDisplayTypes(display.mode), typedText: typeMatch[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find all plugin IDs in a document with their positions
+   */
+  findPluginIds(text: string): PluginIdMatch[] {
+    const results: PluginIdMatch[] = [];
+    const lineStarts = this.getLineStarts(text);
+
+    const push = (match: RegExpMatchArray, types: string[] | null, baseOffset = 0) => {
+      const pluginId = match[2];
+      // Interpolated IDs like "foo_$bar" are only known at runtime
+      if (!pluginId || pluginId.includes('$')) return;
+
+      const offset = baseOffset + (match.index ?? 0) + match[0].length - pluginId.length;
+      const line = this.lineAt(lineStarts, offset);
+      const start = offset - lineStarts[line];
+      results.push({ pluginId, types, line, start, end: start + pluginId.length });
+    };
+
+    for (const { pattern, types } of PhpPluginIdExtractor.PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        push(match, types);
+      }
+    }
+
+    for (const display of this.findDisplayOptions(text)) {
+      const body = text.substring(display.start, display.end);
+      for (const match of body.matchAll(PhpPluginIdExtractor.DISPLAY_TYPE_PATTERN)) {
+        push(match, this.getDisplayTypes(display.mode), display.start);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract plugin ID at given position
+   */
+  extractPluginId(text: string, lineNumber: number, character: number): PluginIdMatch | null {
+    return this.findPluginIds(text)
+      .find((m) => m.line === lineNumber && character >= m.start && character <= m.end) || null;
+  }
+
+  /**
+   * Find setDisplayOptions() arrays with their offsets
+   * Unterminated arrays extend to the end of the document
+   */
+  private findDisplayOptions(text: string): Array<{ mode: string; start: number; end: number }> {
+    const results: Array<{ mode: string; start: number; end: number }> = [];
+
+    for (const match of text.matchAll(PhpPluginIdExtractor.DISPLAY_OPTIONS_PATTERN)) {
+      const start = (match.index ?? 0) + match[0].length - 1;
+      const end = this.findClosingBracket(text, start);
+      results.push({ mode: match[1], start, end: end < 0 ? text.length : end });
+    }
+
+    return results;
+  }
+
+  private getDisplayTypes(mode: string): string[] {
+    return mode === 'view' ? ['FieldFormatter'] : ['FieldWidget'];
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(text: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[') depth++;
+      else if (char === ')' || char === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+  }
+
+  private lineAt(lineStarts: number[], offset: number): number {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line;
+  }
+}
@@ -0,0 +1,35 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Location, Position } from 'vscode-languageserver';
+import { IReferenceProvider } from '../IReferenceProvider';
+import { UsageLocator } from '../base/UsageLocator';
+import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
+
+/**
+ * PHP Reference Provider
+ * Finds all references of a service from DI container calls
+ */
+export class PhpReferenceProvider implements IReferenceProvider {
+  private extractor: PhpServiceNameExtractor;
+  private locator: UsageLocator;
+
+  constructor() {
+    this.extractor = new PhpServiceNameExtractor();
+    this.locator = new UsageLocator();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'php' || document.uri.endsWith('.php');
+  }
+
+  async provideReferences(document: TextDocument, position: Position, includeDeclaration: boolean): Promise<Location[]> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    const serviceName = this.extractor.extractServiceName(line, position.character);
+    if (!serviceName) return [];
+
+    return this.locator.getLocations('service', serviceName, includeDeclaration);
+  }
+}
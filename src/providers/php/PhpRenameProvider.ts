@@ -0,0 +1,44 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Position } from 'vscode-languageserver';
+import { BaseRenameProvider, RenameSymbol } from '../base/BaseRenameProvider';
+import { PhpServiceNameExtractor } from './PhpServiceNameExtractor';
+import { PhpRouteNameExtractor } from './PhpRouteNameExtractor';
+
+/**
+ * PHP Rename Provider
+ * Renames custom services from DI container calls and custom routes from routing methods
+ */
+export class PhpRenameProvider extends BaseRenameProvider {
+  private serviceExtractor: PhpServiceNameExtractor;
+  private routeExtractor: PhpRouteNameExtractor;
+
+  constructor() {
+    super();
+    this.serviceExtractor = new PhpServiceNameExtractor();
+    this.routeExtractor = new PhpRouteNameExtractor();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'php' || document.uri.endsWith('.php');
+  }
+
+  protected extractSymbol(document: TextDocument, position: Position): RenameSymbol | null {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    let type: RenameSymbol['type'] = 'service';
+    let name = this.serviceExtractor.extractServiceName(line, position.character);
+
+    if (!name) {
+      type = 'route';
+      name = this.routeExtractor.extractRouteName(line, position.character);
+    }
+
+    if (!name) return null;
+
+    const range = this.findRangeAtCharacter(line, position.line, name, position.character);
+    return range ? { type, name, range } : null;
+  }
+}
@@ -2,18 +2,44 @@
  * Extracts route names from PHP code
  * Handles Drupal routing patterns:
  * - Url::fromRoute('route_name')
+ * - Link::createFromRoute('title', 'route_name')
  * - $this->redirect('route_name')
  * - $this->setRedirect('route_name')
  * - new RedirectResponse(Url::fromRoute('route_name'))
  */
+export type RouteParameterKey = { key: string; start: number; end: number };
+
+export type RouteNameMatch = { routeName: string; start: number; end: number };
+
+export type RouteCall = {
+  routeName: string;
+  start: number; // Offset of the route name in the document
+  end: number;
+  // Literal keys of the parameters array, 'dynamic' when parameters aren't an array literal
+  parameters: RouteParameterKey[] | 'dynamic' | null;
+};
+
 export class PhpRouteNameExtractor {
+  private static readonly CALL_PATTERNS = [
+    /Url::fromRoute\s*\(\s*(['"])([a-z0-9._]+)\1/gi,
+    /->(?:redirect|setRedirect)\s*\(\s*(['"])([a-z0-9._]+)\1/gi
+  ];
+  private static readonly LINK_PATTERN = /Link::createFromRoute\s*\(/gi;
 
   /**
    * Check if line is in route context
    * More flexible - matches even when typing
    */
   isRouteContext(line: string): boolean {
-    return /(?:Url::fromRoute|->redirect|->setRedirect|Link::createFromRoute)\s*\(\s*['"]/.test(line);
+    if (/(?:Url::fromRoute|->redirect|->setRedirect)\s*\(\s*['"]/.test(line)) return true;
+
+    // Link::createFromRoute() takes the route as its second argument
+    for (const match of line.matchAll(PhpRouteNameExtractor.LINK_PATTERN)) {
+      const titleEnd = this.findArgumentEnd(line, (match.index ?? 0) + match[0].length);
+      if (titleEnd >= 0 && line[titleEnd] === ',' && /^\s*['"]/.test(line.substring(titleEnd + 1))) return true;
+    }
+
+    return false;
   }
 
   /**
@@ -34,4 +60,210 @@ export class PhpRouteNameExtractor {
 
     return line.substring(quoteStart + 1, character);
   }
+
+  /**
+   * Extract route name at given character position
+   */
+  extractRouteName(line: string, character: number): string | null {
+    const patterns = [
+      /Url::fromRoute\s*\(\s*['"]([a-z0-9._]+)['"]/gi,
+      /->(?:redirect|setRedirect)\s*\(\s*['"]([a-z0-9._]+)['"]/gi
+    ];
+
+    for (const pattern of patterns) {
+      let match;
+      while ((match = pattern.exec(line)) !== null) {
+        // Route name sits right before the closing quote
+        const routeStart = match.index + match[0].length - match[1].length - 1;
+        const routeEnd = routeStart + match[1].length;
+
+        if (character >= routeStart - 1 && character <= routeEnd + 1) {
+          return match[1];
+        }
+      }
+    }
+
+    for (const match of this.findLinkRoutes(line)) {
+      if (character >= match.start - 1 && character <= match.end + 1) {
+        return match.routeName;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find route names passed to Link::createFromRoute('title', 'route_name')
+   * The title argument is skipped as a whole, it may contain commas, calls and arrays
+   */
+  findLinkRoutes(text: string): RouteNameMatch[] {
+    const results: RouteNameMatch[] = [];
+
+    for (const match of text.matchAll(PhpRouteNameExtractor.LINK_PATTERN)) {
+      const titleEnd = this.findArgumentEnd(text, (match.index ?? 0) + match[0].length);
+      if (titleEnd < 0 || text[titleEnd] !== ',') continue;
+
+      const route = text.substring(titleEnd + 1).match(/^\s*(['"])([a-z0-9._]+)\1/i);
+      if (!route) continue;
+
+      // Route name sits right before the closing quote
+      const start = titleEnd + route[0].length - route[2].length;
+      results.push({ routeName: route[2], start, end: start + route[2].length });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find all route calls in a document with the literal keys of their parameters array
+   * The parameters array is the argument right after the route name and may span lines
+   */
+  findRouteCalls(text: string): RouteCall[] {
+    const calls: RouteCall[] = [];
+
+    for (const pattern of PhpRouteNameExtractor.CALL_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const routeName = match[2];
+        const end = (match.index ?? 0) + match[0].length - 1;
+        const start = end - routeName.length;
+
+        calls.push({ routeName, start, end, parameters: this.parseParameters(text, end + 1) });
+      }
+    }
+
+    for (const { routeName, start, end } of this.findLinkRoutes(text)) {
+      calls.push({ routeName, start, end, parameters: this.parseParameters(text, end + 1) });
+    }
+
+    return calls;
+  }
+
+  /**
+   * Find route call whose parameters array contains the given offset
+   */
+  findParameterContext(text: string, offset: number): { routeName: string; usedKeys: string[] } | null {
+    const call = this.findRouteCalls(text).find((c) => {
+      const arrayStart = this.findParametersArrayStart(text, c.end + 1);
+      if (arrayStart < 0 || arrayStart >= offset) return false;
+
+      const arrayEnd = this.findClosingBracket(text, arrayStart);
+      return arrayEnd < 0 || offset <= arrayEnd;
+    });
+
+    if (!call) return null;
+
+    const usedKeys = Array.isArray(call.parameters) ? call.parameters.map((p) => p.key) : [];
+    return { routeName: call.routeName, usedKeys };
+  }
+
+  /**
+   * Parse the parameters argument starting after the route name's closing quote
+   */
+  private parseParameters(text: string, offset: number): RouteParameterKey[] | 'dynamic' | null {
+    const rest = text.substring(offset);
+
+    // No further arguments
+    if (/^\s*\)/.test(rest)) return null;
+
+    const arrayStart = this.findParametersArrayStart(text, offset);
+    if (arrayStart < 0) {
+      // Variable, function call or unterminated code
+      return /^\s*,/.test(rest) ? 'dynamic' : null;
+    }
+
+    const arrayEnd = this.findClosingBracket(text, arrayStart);
+    if (arrayEnd < 0) return 'dynamic';
+
+    return this.extractTopLevelKeys(text, arrayStart + 1, arrayEnd);
+  }
+
+  /**
+   * Get offset of the opening bracket of a "[...]" or "array(...)" argument
+   */
+  private findParametersArrayStart(text: string, offset: number): number {
+    const match = text.substring(offset).match(/^\s*,\s*(\[|array\s*\()/);
+    if (!match) return -1;
+    return offset + match[0].length - 1;
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(text: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === "'" || char === '"') quote = char;
+      else if (char === '[' || char === '(') depth++;
+      else if (char === ']' || char === ')') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Find the top-level comma or closing parenthesis ending the argument at offset, skipping quoted strings and brackets
+   */
+  private findArgumentEnd(text: string, offset: number): number {
+    let quote: string | null = null;
+
+    for (let i = offset; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === "'" || char === '"') quote = char;
+      else if (char === '[' || char === '(') {
+        i = this.findClosingBracket(text, i);
+        if (i < 0) return -1;
+      } else if (char === ',' || char === ')' || char === ']') return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Extract quoted keys followed by "=>" at the top level of an array body
+   */
+  private extractTopLevelKeys(text: string, start: number, end: number): RouteParameterKey[] {
+    const keys: RouteParameterKey[] = [];
+    let depth = 0;
+
+    for (let i = start; i < end; i++) {
+      const char = text[i];
+
+      if (char === '[' || char === '(') depth++;
+      else if (char === ']' || char === ')') depth--;
+      else if (char === "'" || char === '"') {
+        let close = i + 1;
+        while (close < end && text[close] !== char) {
+          if (text[close] === '\\') close++;
+          close++;
+        }
+
+        if (depth === 0 && /^\s*=>/.test(text.substring(close + 1, end))) {
+          keys.push({ key: text.substring(i + 1, close), start: i + 1, end: close });
+        }
+        i = close;
+      }
+    }
+
+    return keys;
+  }
 }
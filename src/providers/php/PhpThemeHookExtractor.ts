@@ -0,0 +1,133 @@
+export type ThemeHookMatch = { themeHook: string; line: number; start: number; end: number };
+
+export type ThemeVariableContext = { themeHook: string; typedText: string; usedKeys: string[] };
+
+/**
+ * Extracts theme hooks from PHP render arrays
+ * Handles '#theme' => 'item_list' and the '#variable' keys of the same render array
+ */
+export class PhpThemeHookExtractor {
+  private static readonly THEME_PATTERN = /['"]#theme['"]\s*=>\s*(['"])([^'"\n]*)/g;
+
+  /**
+   * Get typed theme hook if the line ends inside '#theme' => '...'
+   */
+  getTypedThemeHook(line: string): string | null {
+    const match = line.match(/['"]#theme['"]\s*=>\s*['"]([a-zA-Z0-9_]*)$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Find all theme hooks in a document with their positions
+   */
+  findThemeHooks(text: string): ThemeHookMatch[] {
+    const results: ThemeHookMatch[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of lines[i].matchAll(PhpThemeHookExtractor.THEME_PATTERN)) {
+        const themeHook = match[2];
+        // Interpolated hooks like "{$base}_item" are only known at runtime
+        if (!themeHook || (match[1] === '"' && themeHook.includes('$'))) continue;
+
+        const start = (match.index ?? 0) + match[0].length - themeHook.length;
+        results.push({ themeHook, line: i, start, end: start + themeHook.length });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract theme hook at given position
+   */
+  extractThemeHook(line: string, character: number): string | null {
+    return this.findThemeHooks(line)
+      .find((m) => character >= m.start && character <= m.end)?.themeHook || null;
+  }
+
+  /**
+   * Get variable key context when typing '#... in a render array with a #theme
+   */
+  findVariableContext(text: string, offset: number, line: string): ThemeVariableContext | null {
+    const keyMatch = line.match(/(?:[[(,]|^)\s*['"]#([a-zA-Z0-9_]*)$/);
+    if (!keyMatch) return null;
+
+    const arrayStart = this.findEnclosingArray(text, offset);
+    if (arrayStart < 0) return null;
+
+    const arrayEnd = this.findClosingBracket(text, arrayStart);
+    const body = text.substring(arrayStart, arrayEnd < 0 ? text.length : arrayEnd);
+    const themeHook = body.match(/['"]#theme['"]\s*=>\s*['"]([a-zA-Z0-9_]+)['"]/)?.[1];
+    if (!themeHook) return null;
+
+    const usedKeys = [...body.matchAll(/['"]#([a-zA-Z0-9_]+)['"]\s*=>/g)].map((m) => m[1]);
+    return { themeHook, typedText: keyMatch[1], usedKeys };
+  }
+
+  /**
+   * Find the unclosed [ or array( before offset, skipping quoted strings and comments
+   * The quote opening the typed key is left unclosed at offset
+   */
+  private findEnclosingArray(text: string, offset: number): number {
+    const stack: number[] = [];
+    let quote: string | null = null;
+
+    for (let i = 0; i < offset; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '/' && text[i + 1] === '*') {
+        const end = text.indexOf('*/', i + 2);
+        i = end < 0 ? offset : end + 1;
+      } else if ((char === '/' && text[i + 1] === '/') || (char === '#' && text[i + 1] !== '[')) {
+        const end = text.indexOf('\n', i);
+        i = end < 0 ? offset : end;
+      } else if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[') stack.push(i);
+      else if (char === ')' || char === ']') stack.pop();
+    }
+
+    // Skip function call parentheses, only short array syntax and array() count
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const index = stack[i];
+      if (text[index] === '[' || /array\s*$/.test(text.substring(Math.max(0, index - 10), index))) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Find the bracket closing the one at openIndex, skipping quoted strings
+   */
+  private findClosingBracket(text: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(' || char === '[') depth++;
+      else if (char === ')' || char === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -0,0 +1,175 @@
+import { CompletionItem, CompletionItemKind, InsertTextFormat, Position, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BaseCompletionProvider } from '../base/BaseCompletionProvider';
+import { TwigLibraryExtractor } from './TwigLibraryExtractor';
+import { TwigRouteNameExtractor } from './TwigRouteNameExtractor';
+import { TwigCallableContext, TwigFunctionExtractor } from './TwigFunctionExtractor';
+import { TWIG_FILTERS, TWIG_FUNCTIONS, TwigCallable } from './TwigFunctions';
+import { LibraryContext } from '../yaml/YamlLibraryExtractor';
+import { getThemeHookParser, getYamlLibraryParser, getYamlRouteParser } from '../../server';
+import * as path from 'path';
+
+/**
+ * Twig Completion Provider
+ * Provides autocomplete for Drupal Twig functions and filters, template variables declared by hook_theme(),
+ * routes in path()/url() and libraries in attach_library()
+ */
+export class TwigCompletionProvider extends BaseCompletionProvider {
+  private libraryExtractor: TwigLibraryExtractor;
+  private routeExtractor: TwigRouteNameExtractor;
+  private functionExtractor: TwigFunctionExtractor;
+
+  constructor() {
+    super();
+    this.libraryExtractor = new TwigLibraryExtractor();
+    this.routeExtractor = new TwigRouteNameExtractor();
+    this.functionExtractor = new TwigFunctionExtractor();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'twig' || document.uri.endsWith('.twig');
+  }
+
+  async provideCompletions(document: TextDocument, position: Position): Promise<CompletionItem[]> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: position
+    });
+
+    // Check for attach_library() completion
+    const libraryContext = this.libraryExtractor.findCompletionContext(line);
+    if (libraryContext) {
+      return this.getLibraryCompletions(libraryContext, position);
+    }
+
+    // Check for path()/url() route completion
+    const typedRoute = this.routeExtractor.getTypedRoute(line);
+    if (typedRoute !== null) {
+      return this.getRouteCompletions(typedRoute, position);
+    }
+
+    // Check for function and filter completion inside {{ }} and {% %}
+    const callableContext = this.functionExtractor.findCompletionContext(document.getText(), document.offsetAt(position));
+    if (callableContext) {
+      const completions = this.getCallableCompletions(callableContext, position);
+      return callableContext.kind === 'function'
+        ? [...this.getVariableCompletions(document, callableContext, position), ...completions]
+        : completions;
+    }
+
+    return [];
+  }
+
+  // Templates don't reference services
+  protected isServiceCompletionContext(): boolean {
+    return false;
+  }
+
+  protected getTypedText(): string {
+    return '';
+  }
+
+  private getLibraryCompletions(context: LibraryContext, position: Position): CompletionItem[] {
+    const libraryParser = getYamlLibraryParser();
+    if (!libraryParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allLibrariesCompletions(libraryParser.getAllLibraries(), replaceRange, context.typedText);
+  }
+
+  private getRouteCompletions(typedText: string, position: Position): CompletionItem[] {
+    const routeParser = getYamlRouteParser();
+    if (!routeParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allRoutesCompletions(routeParser.getAllRoutes(), replaceRange, typedText);
+  }
+
+  private getCallableCompletions(context: TwigCallableContext, position: Position): CompletionItem[] {
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    const callables = context.kind === 'filter' ? TWIG_FILTERS : TWIG_FUNCTIONS;
+
+    return callables.map((callable) => ({
+      label: callable.name,
+      kind: CompletionItemKind.Function,
+      detail: callable.signature,
+      documentation: this.buildCallableDocumentation(callable, context.kind),
+      // Drupal additions first
+      sortText: `${callable.drupal ? '0' : '1'}_${callable.name}`,
+      insertTextFormat: InsertTextFormat.Snippet,
+      textEdit: TextEdit.replace(replaceRange, this.buildCallableSnippet(callable, context.kind)),
+      filterText: callable.name
+    }));
+  }
+
+  /**
+   * Complete variables declared for the theme hook rendered by this template
+   */
+  private getVariableCompletions(
+    document: TextDocument,
+    context: TwigCallableContext,
+    position: Position
+  ): CompletionItem[] {
+    const themeHookParser = getThemeHookParser();
+    if (!themeHookParser) return [];
+
+    const template = path.basename(decodeURIComponent(document.uri)).replace(/\.html\.twig$/, '');
+    const themeHook = themeHookParser.getThemeHookByTemplate(template);
+    if (!themeHook) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    const declared = new Set([...themeHook.variables, themeHook.renderElement]);
+
+    return themeHookParser.getTemplateVariables(themeHook).map((variable) => ({
+      label: variable,
+      kind: CompletionItemKind.Variable,
+      detail: `${themeHook.name} variable`,
+      // Before functions, declared variables ahead of template_preprocess() defaults
+      sortText: `0${declared.has(variable) ? '0' : '1'}_${variable}`,
+      textEdit: TextEdit.replace(replaceRange, variable),
+      filterText: variable
+    }));
+  }
+
+  /**
+   * Functions are always called, filters only get parentheses when they require arguments
+   */
+  private buildCallableSnippet(callable: TwigCallable, kind: TwigCallableContext['kind']): string {
+    const parameters = callable.signature.match(/\((.*)\)$/)?.[1];
+    if (kind === 'function') return parameters ? `${callable.name}($0)` : `${callable.name}()`;
+
+    const required = parameters?.split(',').some((p) => p.trim() && !p.includes('='));
+    return required ? `${callable.name}($0)` : callable.name;
+  }
+
+  private buildCallableDocumentation(callable: TwigCallable, kind: TwigCallableContext['kind']): string {
+    let doc = `**${kind === 'filter' ? 'Filter' : 'Function'}:** ${callable.signature}\n\n`;
+    doc += `${callable.description}\n\n`;
+    doc += `**Source:** ${callable.drupal ? 'Drupal' : 'Twig'}`;
+    return doc;
+  }
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Definition, Location, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BaseDefinitionProvider } from '../base/BaseDefinitionProvider';
+import { TwigRouteNameExtractor } from './TwigRouteNameExtractor';
+import { TwigTemplateExtractor } from './TwigTemplateExtractor';
+import { getYamlInfoParser, getYamlServiceParser } from '../../server';
+
+/**
+ * Twig Definition Provider
+ * Handles go-to-definition for included templates and routes in path()/url()
+ */
+export class TwigDefinitionProvider extends BaseDefinitionProvider {
+  private routeExtractor: TwigRouteNameExtractor;
+  private templateExtractor: TwigTemplateExtractor;
+
+  constructor() {
+    super();
+    this.routeExtractor = new TwigRouteNameExtractor();
+    this.templateExtractor = new TwigTemplateExtractor();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'twig' || document.uri.endsWith('.twig');
+  }
+
+  async provideDefinition(document: TextDocument, position: Position): Promise<Definition | null> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    const templateName = this.templateExtractor.extractTemplateName(line, position.character);
+    if (templateName) {
+      const templatePath = this.resolveTemplatePath(templateName);
+      return templatePath ? Location.create(`file://${templatePath}`, Range.create(0, 0, 0, 0)) : null;
+    }
+
+    const routeName = this.routeExtractor.extractRouteName(line, position.character);
+    if (routeName) {
+      return this.resolveRouteDefinition(routeName);
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve template file path
+   * "@extension/..." maps to the extension's templates directory, other names are relative to the Drupal root
+   */
+  private resolveTemplatePath(templateName: string): string | null {
+    const { namespace, path: templatePath } = this.templateExtractor.parseTemplateName(templateName);
+
+    let candidate: string;
+    if (namespace) {
+      const extension = getYamlInfoParser()?.getExtension(namespace);
+      if (!extension) return null;
+      candidate = path.join(path.dirname(extension.sourceFile), 'templates', templatePath);
+    } else {
+      candidate = path.join(getYamlServiceParser().getDrupalRoot(), templatePath);
+    }
+
+    return fs.existsSync(candidate) ? candidate : null;
+  }
+}
@@ -0,0 +1,48 @@
+import { Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { IDiagnosticProvider } from '../IDiagnosticProvider';
+import { BaseDiagnosticProvider } from '../base/BaseDiagnosticProvider';
+import { TwigLibraryExtractor } from './TwigLibraryExtractor';
+import { TwigRouteNameExtractor } from './TwigRouteNameExtractor';
+
+/**
+ * Twig Diagnostic Provider
+ * Validates routes in path()/url() and libraries in attach_library() calls
+ */
+export class TwigDiagnosticProvider extends BaseDiagnosticProvider implements IDiagnosticProvider {
+  private libraryExtractor: TwigLibraryExtractor;
+  private routeExtractor: TwigRouteNameExtractor;
+
+  constructor() {
+    super();
+    this.libraryExtractor = new TwigLibraryExtractor();
+    this.routeExtractor = new TwigRouteNameExtractor();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'twig' || document.uri.endsWith('.twig');
+  }
+
+  async provideDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
+    const diagnostics: Diagnostic[] = [];
+    const text = document.getText();
+
+    for (const match of this.routeExtractor.findRouteNames(text)) {
+      if (!this.routeExists(match.routeName) && !this.isDynamicRoutePattern(match.routeName)) {
+        diagnostics.push(
+          this.createRouteNotFoundDiagnostic(match.line, match.start, match.end, match.routeName)
+        );
+      }
+    }
+
+    for (const match of this.libraryExtractor.findLibraries(text)) {
+      if (!this.libraryExists(match.library)) {
+        diagnostics.push(
+          this.createLibraryNotFoundDiagnostic(match.line, match.start, match.end, match.library)
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+}
@@ -0,0 +1,65 @@
+export type TwigCallableKind = 'function' | 'filter';
+
+export type TwigCallableContext = { kind: TwigCallableKind; typedText: string };
+
+/**
+ * Extracts function and filter names from Twig expressions
+ * Only {{ ... }} and {% ... %} blocks are considered, text and string literals are skipped
+ */
+export class TwigFunctionExtractor {
+  /**
+   * Get completion context at the cursor
+   */
+  findCompletionContext(text: string, offset: number): TwigCallableContext | null {
+    const expression = this.getExpressionBeforeCursor(text, offset);
+    if (expression === null || this.isInString(expression.body)) return null;
+
+    const filterMatch = expression.body.match(/\|\s*([a-zA-Z_]\w*)?$/);
+    if (filterMatch) return { kind: 'filter', typedText: filterMatch[1] || '' };
+
+    // The first word of a {% %} block is the tag name
+    if (expression.tag && /^\s*\w*$/.test(expression.body)) return null;
+
+    const functionMatch = expression.body.match(/(?:^|[^\w.$|'"])([a-zA-Z_]\w*)$/);
+    return functionMatch ? { kind: 'function', typedText: functionMatch[1] } : null;
+  }
+
+  /**
+   * Extract function or filter name at given character position
+   * Functions are followed by "(", filters are preceded by "|"
+   */
+  extractCallable(line: string, character: number): { name: string; kind: TwigCallableKind } | null {
+    for (const match of line.matchAll(/(\|\s*)?\b([a-zA-Z_]\w*)(\s*\()?/g)) {
+      const start = (match.index ?? 0) + (match[1]?.length ?? 0);
+      if (character < start || character > start + match[2].length) continue;
+
+      if (match[1]) return { name: match[2], kind: 'filter' };
+      if (match[3] && line[(match.index ?? 0) - 1] !== '.') return { name: match[2], kind: 'function' };
+      return null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the text between the innermost open {{ or {% and the cursor
+   * Returns null when the cursor is outside a Twig block
+   */
+  private getExpressionBeforeCursor(text: string, offset: number): { body: string; tag: boolean } | null {
+    const before = text.substring(0, offset);
+    const printOpen = before.lastIndexOf('{{');
+    const tagOpen = before.lastIndexOf('{%');
+    const open = Math.max(printOpen, tagOpen);
+    if (open < 0) return null;
+
+    const close = Math.max(before.lastIndexOf('}}'), before.lastIndexOf('%}'));
+    if (close > open) return null;
+
+    return { body: before.substring(open + 2).replace(/^-/, ''), tag: open === tagOpen };
+  }
+
+  private isInString(expression: string): boolean {
+    const withoutStrings = expression.replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g, '');
+    return /['"]/.test(withoutStrings);
+  }
+}
@@ -0,0 +1,95 @@
+export interface TwigCallable {
+  name: string;
+  signature: string; // Shown as detail, arguments in parentheses if any
+  description: string;
+  drupal: boolean; // Added by Drupal's TwigExtension rather than Twig itself
+}
+
+/**
+ * Functions available in Drupal templates
+ */
+export const TWIG_FUNCTIONS: TwigCallable[] = [
+  // Drupal functions
+  { name: 'path', signature: 'path(name, parameters = {}, options = {})', description: 'Generates a relative URL path for a route.', drupal: true },
+  { name: 'url', signature: 'url(name, parameters = {}, options = {})', description: 'Generates an absolute URL for a route.', drupal: true },
+  { name: 'link', signature: 'link(text, url, attributes = {})', description: 'Renders a link from text and a Url object.', drupal: true },
+  { name: 'file_url', signature: 'file_url(uri)', description: 'Generates a relative URL for a file URI or path.', drupal: true },
+  { name: 'attach_library', signature: 'attach_library(library)', description: 'Attaches an asset library to the template.', drupal: true },
+  { name: 'active_theme', signature: 'active_theme()', description: 'Returns the machine name of the active theme.', drupal: true },
+  { name: 'active_theme_path', signature: 'active_theme_path()', description: 'Returns the path of the active theme.', drupal: true },
+  { name: 'create_attribute', signature: 'create_attribute(attributes = {})', description: 'Creates a new Attribute object.', drupal: true },
+  { name: 'render_var', signature: 'render_var(arg)', description: 'Renders a variable, used internally for printed output.', drupal: true },
+  { name: 'add_component_context', signature: 'add_component_context(context)', description: 'Adds context to a single directory component.', drupal: true },
+  { name: 'help_route_link', signature: 'help_route_link(text, route, parameters = {}, options = {})', description: 'Renders a link to a route in help topics.', drupal: true },
+  { name: 'help_topic_link', signature: 'help_topic_link(topic_id)', description: 'Renders a link to a help topic.', drupal: true },
+
+  // Twig functions
+  { name: 'include', signature: 'include(template, variables = {}, with_context = true)', description: 'Renders another template.', drupal: false },
+  { name: 'source', signature: 'source(name, ignore_missing = false)', description: 'Returns the content of a template without rendering it.', drupal: false },
+  { name: 'constant', signature: 'constant(name, object = null)', description: 'Returns the value of a PHP constant.', drupal: false },
+  { name: 'attribute', signature: 'attribute(object, method, arguments = [])', description: 'Accesses a dynamic attribute of a variable.', drupal: false },
+  { name: 'range', signature: 'range(low, high, step = 1)', description: 'Returns a list of numbers.', drupal: false },
+  { name: 'cycle', signature: 'cycle(values, position)', description: 'Cycles through an array of values.', drupal: false },
+  { name: 'date', signature: 'date(date = null, timezone = null)', description: 'Converts an argument to a date.', drupal: false },
+  { name: 'max', signature: 'max(...values)', description: 'Returns the biggest value.', drupal: false },
+  { name: 'min', signature: 'min(...values)', description: 'Returns the lowest value.', drupal: false },
+  { name: 'random', signature: 'random(values = null, max = null)', description: 'Returns a random value.', drupal: false },
+  { name: 'block', signature: 'block(name, template = null)', description: 'Renders the contents of a block.', drupal: false },
+  { name: 'parent', signature: 'parent()', description: 'Renders the contents of the parent block.', drupal: false },
+  { name: 'dump', signature: 'dump(...values)', description: 'Dumps variables when debugging is enabled.', drupal: false }
+];
+
+/**
+ * Filters available in Drupal templates
+ */
+export const TWIG_FILTERS: TwigCallable[] = [
+  // Drupal filters
+  { name: 't', signature: 't(arguments = {}, options = {})', description: 'Translates a string.', drupal: true },
+  { name: 'trans', signature: 'trans(arguments = {}, options = {})', description: 'Translates a string.', drupal: true },
+  { name: 'placeholder', signature: 'placeholder', description: 'Escapes and emphasizes a value for use in translated strings.', drupal: true },
+  { name: 'render', signature: 'render', description: 'Renders a render array or object to a string.', drupal: true },
+  { name: 'without', signature: 'without(...keys)', description: 'Returns a copy of a render array without the given keys.', drupal: true },
+  { name: 'clean_class', signature: 'clean_class', description: 'Prepares a string for use as a CSS class name.', drupal: true },
+  { name: 'clean_id', signature: 'clean_id', description: 'Prepares a string for use as a CSS ID.', drupal: true },
+  { name: 'clean_unique_id', signature: 'clean_unique_id', description: 'Prepares a string for use as a unique CSS ID.', drupal: true },
+  { name: 'safe_join', signature: 'safe_join(glue)', description: 'Joins values, escaping each unless it is already safe.', drupal: true },
+  { name: 'format_date', signature: "format_date(type = 'medium', format = '', timezone = null, langcode = null)", description: 'Formats a timestamp with the date formatter.', drupal: true },
+  { name: 'add_suggestion', signature: 'add_suggestion(suggestion)', description: 'Adds a theme suggestion to a render array.', drupal: true },
+  { name: 'drupal_escape', signature: "drupal_escape(strategy = 'html')", description: 'Escapes a value, aware of render arrays and safe markup.', drupal: true },
+
+  // Twig filters
+  { name: 'abs', signature: 'abs', description: 'Returns the absolute value.', drupal: false },
+  { name: 'batch', signature: 'batch(size, fill = null)', description: 'Splits a list into lists of the given size.', drupal: false },
+  { name: 'capitalize', signature: 'capitalize', description: 'Capitalizes the first character.', drupal: false },
+  { name: 'column', signature: 'column(name)', description: 'Returns the values of a single column.', drupal: false },
+  { name: 'date', signature: 'date(format = null, timezone = null)', description: 'Formats a date.', drupal: false },
+  { name: 'default', signature: "default(value = '')", description: 'Returns the given value if the variable is empty or undefined.', drupal: false },
+  { name: 'escape', signature: "escape(strategy = 'html')", description: 'Escapes a string.', drupal: false },
+  { name: 'e', signature: "e(strategy = 'html')", description: 'Escapes a string.', drupal: false },
+  { name: 'filter', signature: 'filter(arrow)', description: 'Filters elements with an arrow function.', drupal: false },
+  { name: 'first', signature: 'first', description: 'Returns the first element.', drupal: false },
+  { name: 'format', signature: 'format(...values)', description: 'Formats a string by replacing placeholders.', drupal: false },
+  { name: 'join', signature: "join(glue = '', and = null)", description: 'Joins list elements into a string.', drupal: false },
+  { name: 'json_encode', signature: 'json_encode(options = 0)', description: 'Returns the JSON representation of a value.', drupal: false },
+  { name: 'keys', signature: 'keys', description: 'Returns the keys of an array.', drupal: false },
+  { name: 'last', signature: 'last', description: 'Returns the last element.', drupal: false },
+  { name: 'length', signature: 'length', description: 'Returns the number of items or characters.', drupal: false },
+  { name: 'lower', signature: 'lower', description: 'Converts a value to lowercase.', drupal: false },
+  { name: 'map', signature: 'map(arrow)', description: 'Applies an arrow function to each element.', drupal: false },
+  { name: 'merge', signature: 'merge(values)', description: 'Merges an array with another array.', drupal: false },
+  { name: 'nl2br', signature: 'nl2br', description: 'Inserts HTML line breaks before newlines.', drupal: false },
+  { name: 'number_format', signature: "number_format(decimals = 0, decimal_point = '.', thousand_sep = ',')", description: 'Formats a number.', drupal: false },
+  { name: 'raw', signature: 'raw', description: 'Marks a value as safe, it will not be escaped.', drupal: false },
+  { name: 'reduce', signature: 'reduce(arrow, initial = null)', description: 'Reduces a list to a single value.', drupal: false },
+  { name: 'replace', signature: 'replace(from)', description: 'Replaces placeholders in a string.', drupal: false },
+  { name: 'reverse', signature: 'reverse', description: 'Reverses a list or string.', drupal: false },
+  { name: 'round', signature: "round(precision = 0, method = 'common')", description: 'Rounds a number.', drupal: false },
+  { name: 'slice', signature: 'slice(start, length = null)', description: 'Extracts a slice of a list or string.', drupal: false },
+  { name: 'sort', signature: 'sort(arrow = null)', description: 'Sorts an array.', drupal: false },
+  { name: 'split', signature: 'split(delimiter, limit = null)', description: 'Splits a string into a list.', drupal: false },
+  { name: 'striptags', signature: 'striptags(allowed = null)', description: 'Strips HTML tags.', drupal: false },
+  { name: 'title', signature: 'title', description: 'Titlecases a value.', drupal: false },
+  { name: 'trim', signature: "trim(characters = null, side = 'both')", description: 'Strips whitespace or characters from a string.', drupal: false },
+  { name: 'upper', signature: 'upper', description: 'Converts a value to uppercase.', drupal: false },
+  { name: 'url_encode', signature: 'url_encode', description: 'Percent-encodes a string or query parameters.', drupal: false }
+];
@@ -0,0 +1,67 @@
+import { Hover, MarkupKind, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { IHoverProvider } from '../IHoverProvider';
+import { BaseClassResolver } from '../base/BaseClassResolver';
+import { HoverContentBuilder } from '../base/HoverContentBuilder';
+import { TwigRouteNameExtractor } from './TwigRouteNameExtractor';
+import { TwigFunctionExtractor } from './TwigFunctionExtractor';
+import { TWIG_FILTERS, TWIG_FUNCTIONS } from './TwigFunctions';
+import { getYamlRouteParser, getYamlServiceParser } from '../../server';
+
+/**
+ * Twig Hover Provider
+ * Shows route cards for path()/url() and documentation for Twig functions and filters
+ */
+export class TwigHoverProvider implements IHoverProvider {
+  private routeExtractor: TwigRouteNameExtractor;
+  private functionExtractor: TwigFunctionExtractor;
+  private contentBuilder: HoverContentBuilder;
+
+  constructor() {
+    this.routeExtractor = new TwigRouteNameExtractor();
+    this.functionExtractor = new TwigFunctionExtractor();
+    this.contentBuilder = new HoverContentBuilder(new BaseClassResolver(getYamlServiceParser().getDrupalRoot()));
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.languageId === 'twig' || document.uri.endsWith('.twig');
+  }
+
+  async provideHover(document: TextDocument, position: Position): Promise<Hover | null> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    // Check for route hover (before functions, path( itself is a function)
+    const routeName = this.routeExtractor.extractRouteName(line, position.character);
+    if (routeName) {
+      const route = getYamlRouteParser().getRoute(routeName);
+      const content = route
+        ? await this.contentBuilder.buildRouteHover(route)
+        : this.contentBuilder.buildUndefinedRouteHover(routeName);
+
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: content
+        }
+      };
+    }
+
+    const callable = this.functionExtractor.extractCallable(line, position.character);
+    if (!callable) return null;
+
+    const definition = (callable.kind === 'filter' ? TWIG_FILTERS : TWIG_FUNCTIONS)
+      .find((c) => c.name === callable.name);
+    if (!definition) return null;
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: `**${definition.signature}**\n\n${definition.description}\n\n` +
+          `*${definition.drupal ? 'Drupal' : 'Twig'} ${callable.kind}*`
+      }
+    };
+  }
+}
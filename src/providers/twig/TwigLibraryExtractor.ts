@@ -0,0 +1,37 @@
+import { LibraryContext, LibraryMatch } from '../yaml/YamlLibraryExtractor';
+
+/**
+ * Extracts library IDs from Twig templates
+ * Handles {{ attach_library('core/drupal.dialog') }}
+ */
+export class TwigLibraryExtractor {
+  private static readonly ATTACH_PATTERN = /attach_library\s*\(\s*(['"])([^'"\n]*)/g;
+
+  /**
+   * Get completion context for the line before the cursor
+   */
+  findCompletionContext(line: string): LibraryContext | null {
+    const match = line.match(/attach_library\s*\(\s*['"]([^'"]*)$/);
+    return match ? { typedText: match[1] } : null;
+  }
+
+  /**
+   * Find all library IDs in a template with their positions
+   */
+  findLibraries(text: string): LibraryMatch[] {
+    const results: LibraryMatch[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of lines[i].matchAll(TwigLibraryExtractor.ATTACH_PATTERN)) {
+        const library = match[2];
+        if (!library) continue;
+
+        const start = (match.index ?? 0) + match[0].length - library.length;
+        results.push({ library, line: i, start, end: start + library.length });
+      }
+    }
+
+    return results;
+  }
+}
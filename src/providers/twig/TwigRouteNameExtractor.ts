@@ -0,0 +1,45 @@
+export type TwigRouteMatch = { routeName: string; line: number; start: number; end: number };
+
+/**
+ * Extracts route names from Twig templates
+ * Handles {{ path('route.name') }} and {{ url('route.name') }}
+ */
+export class TwigRouteNameExtractor {
+  private static readonly ROUTE_PATTERN = /\b(?:path|url)\s*\(\s*(['"])([^'"\n]*)/g;
+
+  /**
+   * Get typed route name if the line ends inside path('...') or url('...')
+   */
+  getTypedRoute(line: string): string | null {
+    const match = line.match(/\b(?:path|url)\s*\(\s*['"]([^'"]*)$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Find all route names in a template with their positions
+   */
+  findRouteNames(text: string): TwigRouteMatch[] {
+    const results: TwigRouteMatch[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of lines[i].matchAll(TwigRouteNameExtractor.ROUTE_PATTERN)) {
+        const routeName = match[2];
+        if (!routeName) continue;
+
+        const start = (match.index ?? 0) + match[0].length - routeName.length;
+        results.push({ routeName, line: i, start, end: start + routeName.length });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract route name at given character position
+   */
+  extractRouteName(line: string, character: number): string | null {
+    return this.findRouteNames(line)
+      .find((m) => character >= m.start && character <= m.end)?.routeName || null;
+  }
+}
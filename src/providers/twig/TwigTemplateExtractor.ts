@@ -0,0 +1,32 @@
+/**
+ * Extracts template names from Twig templates
+ * Handles {% include %}, {% extends %}, {% embed %}, {% import %}, {% from %}, {% use %}
+ * and the include() and source() functions
+ */
+export class TwigTemplateExtractor {
+  private static readonly TEMPLATE_PATTERN =
+    /(?:\{%-?\s*(?:include|extends|embed|import|from|use)\s+|\b(?:include|source)\s*\(\s*)(['"])([^'"\n]+)\1/g;
+
+  /**
+   * Extract template name at given character position
+   */
+  extractTemplateName(line: string, character: number): string | null {
+    for (const match of line.matchAll(TwigTemplateExtractor.TEMPLATE_PATTERN)) {
+      const start = (match.index ?? 0) + match[0].length - match[2].length - 1;
+      if (character >= start && character <= start + match[2].length) {
+        return match[2];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Split a namespaced template name
+   * e.g. "@my_module/partials/card.html.twig" => { namespace: 'my_module', path: 'partials/card.html.twig' }
+   */
+  parseTemplateName(templateName: string): { namespace: string | null; path: string } {
+    const match = templateName.match(/^@([a-zA-Z0-9_]+)\/(.+)$/);
+    return match ? { namespace: match[1], path: match[2] } : { namespace: null, path: templateName };
+  }
+}
@@ -0,0 +1,54 @@
+export interface ServiceTagDefinition {
+  name: string;
+  description: string;
+  requiredAttributes: string[]; // Keys besides name the tag needs to do anything
+}
+
+/**
+ * Service tags collected by Drupal core compiler passes and service collectors
+ */
+export const SERVICE_TAGS: ServiceTagDefinition[] = [
+  // Events and routing
+  { name: 'event_subscriber', description: 'Registers an event subscriber, the class implements EventSubscriberInterface.', requiredAttributes: [] },
+  { name: 'access_check', description: 'Access checker for routes whose requirements contain a key listed in applies_to.', requiredAttributes: ['applies_to'] },
+  { name: 'paramconverter', description: 'Converts route parameters, e.g. entity IDs to entities.', requiredAttributes: [] },
+  { name: 'route_enhancer', description: 'Enhances route defaults before the controller is resolved.', requiredAttributes: [] },
+  { name: 'route_filter', description: 'Filters the routes matching a request.', requiredAttributes: [] },
+  { name: 'route_processor_outbound', description: 'Processes routes when generating URLs.', requiredAttributes: [] },
+  { name: 'path_processor_inbound', description: 'Processes the path of incoming requests.', requiredAttributes: [] },
+  { name: 'path_processor_outbound', description: 'Processes paths when generating URLs.', requiredAttributes: [] },
+  { name: 'breadcrumb_builder', description: 'Builds breadcrumbs for the routes it applies to.', requiredAttributes: [] },
+  { name: 'theme_negotiator', description: 'Selects the theme for a route.', requiredAttributes: [] },
+  { name: 'http_middleware', description: 'Wraps the HTTP kernel as a StackPHP middleware.', requiredAttributes: [] },
+  { name: 'authentication_provider', description: 'Authenticates requests, provider_id names the provider in route options.', requiredAttributes: ['provider_id'] },
+
+  // Caching
+  { name: 'cache.context', description: 'Cache context, named by the service ID after cache_context.', requiredAttributes: [] },
+  { name: 'cache.bin', description: 'Cache bin, named by the service ID after cache.', requiredAttributes: [] },
+  { name: 'cache_tags_invalidator', description: 'Invalidates cache tags, e.g. in an external cache.', requiredAttributes: [] },
+  { name: 'page_cache_request_policy', description: 'Decides whether a request may be served from the page cache.', requiredAttributes: [] },
+  { name: 'page_cache_response_policy', description: 'Decides whether a response may be stored in the page cache.', requiredAttributes: [] },
+  { name: 'dynamic_page_cache_request_policy', description: 'Decides whether a request may be served from the dynamic page cache.', requiredAttributes: [] },
+  { name: 'dynamic_page_cache_response_policy', description: 'Decides whether a response may be stored in the dynamic page cache.', requiredAttributes: [] },
+
+  // Rendering and theming
+  { name: 'twig.extension', description: 'Twig extension adding functions, filters, tests or tags.', requiredAttributes: [] },
+  { name: 'render.main_content_renderer', description: 'Renders main content for a request format.', requiredAttributes: ['format'] },
+  { name: 'placeholder_strategy', description: 'Strategy for rendering placeholders, e.g. BigPipe.', requiredAttributes: [] },
+
+  // Serialization
+  { name: 'normalizer', description: 'Serializer normalizer.', requiredAttributes: [] },
+  { name: 'encoder', description: 'Serializer encoder for the given format.', requiredAttributes: ['format'] },
+
+  // Other collectors
+  { name: 'stream_wrapper', description: 'Registers a stream wrapper for the given scheme.', requiredAttributes: ['scheme'] },
+  { name: 'string_translator', description: 'Translates strings passed to t().', requiredAttributes: [] },
+  { name: 'config.factory.override', description: 'Overrides config values at runtime.', requiredAttributes: [] },
+  { name: 'context_provider', description: 'Provides contexts for plugins, e.g. the current user.', requiredAttributes: [] },
+  { name: 'logger', description: 'Logger receiving messages from all channels.', requiredAttributes: [] },
+  { name: 'needs_destruction', description: 'Calls destruct() on the service at the end of the request.', requiredAttributes: [] },
+  { name: 'backend_overridable', description: 'Allows the service to be overridden per database driver.', requiredAttributes: [] },
+  { name: 'plugin_manager_cache_clear', description: 'Clears the plugin manager cache with other plugin caches.', requiredAttributes: [] },
+  { name: 'service_collector', description: 'Collects services tagged with tag, passing each to the call method.', requiredAttributes: [] },
+  { name: 'service_id_collector', description: 'Collects the IDs of services tagged with tag, for lazy instantiation.', requiredAttributes: [] }
+];
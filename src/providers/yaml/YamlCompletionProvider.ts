@@ -1,20 +1,68 @@
+import * as path from 'path';
 import { CompletionItem, CompletionItemKind, Position, TextEdit, Range } from 'vscode-languageserver';
 import { BaseCompletionProvider } from '../base/BaseCompletionProvider';
 import { YamlServiceNameExtractor } from './YamlServiceNameExtractor';
 import { YamlRouteNameExtractor } from './YamlRouteNameExtractor';
-import { getYamlServiceParser, getYamlRouteParser, getYamlLinkParser } from '../../server';
+import { YamlPermissionNameExtractor } from './YamlPermissionNameExtractor';
+import { PluginIdContext, YamlPluginIdExtractor } from './YamlPluginIdExtractor';
+import { InfoCompletionContext, YamlInfoExtractor } from './YamlInfoExtractor';
+import { LibraryContext, YamlLibraryExtractor } from './YamlLibraryExtractor';
+import { ConfigKeyContext, YamlConfigExtractor } from './YamlConfigExtractor';
+import { ServiceTagContext, YamlServiceTagExtractor } from './YamlServiceTagExtractor';
+import { SERVICE_TAGS } from './ServiceTags';
+import {
+  getYamlServiceParser,
+  getYamlRouteParser,
+  getYamlLinkParser,
+  getYamlPermissionParser,
+  getPluginParser,
+  getYamlInfoParser,
+  getYamlLibraryParser,
+  getYamlConfigSchemaParser
+} from '../../server';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 
 /**
  * YAML Completion Provider
- * Provides autocomplete for service names, classes, arguments, and routes
+ * Provides autocomplete for service names, classes, arguments, tags, routes, permissions, plugin IDs, libraries, info file keys
+ * and config keys from config schema
  */
 export class YamlCompletionProvider extends BaseCompletionProvider {
   private routeExtractor: YamlRouteNameExtractor;
+  private permissionExtractor: YamlPermissionNameExtractor;
+  private pluginExtractor: YamlPluginIdExtractor;
+  private infoExtractor: YamlInfoExtractor;
+  private libraryExtractor: YamlLibraryExtractor;
+  private configExtractor: YamlConfigExtractor;
+  private tagExtractor: YamlServiceTagExtractor;
+
+  // Regions every theme gets unless it defines its own
+  private static readonly DEFAULT_REGIONS: Record<string, string> = {
+    header: 'Header',
+    primary_menu: 'Primary menu',
+    secondary_menu: 'Secondary menu',
+    highlighted: 'Highlighted',
+    breadcrumb: 'Breadcrumb',
+    help: 'Help',
+    content: 'Content',
+    sidebar_first: 'Left sidebar',
+    sidebar_second: 'Right sidebar',
+    footer: 'Footer',
+    page_top: 'Page top',
+    page_bottom: 'Page bottom'
+  };
+
+  private static readonly CORE_VERSION_REQUIREMENTS = ['^10 || ^11', '^11', '^10.3 || ^11', '^9.5 || ^10 || ^11'];
 
   constructor() {
     super(new YamlServiceNameExtractor());
     this.routeExtractor = new YamlRouteNameExtractor();
+    this.permissionExtractor = new YamlPermissionNameExtractor();
+    this.pluginExtractor = new YamlPluginIdExtractor();
+    this.infoExtractor = new YamlInfoExtractor();
+    this.libraryExtractor = new YamlLibraryExtractor();
+    this.configExtractor = new YamlConfigExtractor();
+    this.tagExtractor = new YamlServiceTagExtractor();
   }
 
   canProvide(document: TextDocument, _position: Position): boolean {
@@ -33,6 +81,39 @@ export class YamlCompletionProvider extends BaseCompletionProvider {
     const uri = document.uri;
     const isLinksFile = uri.includes('.links.');
     const isServicesFile = uri.endsWith('.services.yml');
+    const isRoutingFile = uri.endsWith('.routing.yml');
+
+    // Permission completion in .routing.yml requirements
+    if (isRoutingFile && this.permissionExtractor.isPermissionContext(line)) {
+      return this.getPermissionCompletions(line, position);
+    }
+
+    // Key completion in *.info.yml files
+    if (this.infoExtractor.isInfoFile(uri)) {
+      const infoContext = this.infoExtractor.findCompletionContext(text.split('\n'), position.line, line);
+      return infoContext ? this.getInfoCompletions(document, infoContext, position) : [];
+    }
+
+    // Library dependency completion in *.libraries.yml files
+    if (this.libraryExtractor.isLibrariesFile(uri)) {
+      const libraryContext = this.libraryExtractor.findCompletionContext(text.split('\n'), position.line, line);
+      return libraryContext ? this.getLibraryCompletions(libraryContext, position) : [];
+    }
+
+    // Plugin ID completion in block, display and migration config
+    if (this.pluginExtractor.isPluginFile(uri)) {
+      const pluginContext = this.pluginExtractor.findCompletionContext(uri, text.split('\n'), position.line, line);
+      if (pluginContext) {
+        return this.getPluginCompletions(pluginContext, position);
+      }
+    }
+
+    // Key completion from config schema in config/install and config/optional files
+    if (this.configExtractor.isConfigFile(uri)) {
+      const lines = text.split('\n');
+      const configContext = this.configExtractor.findCompletionContext(lines, position.line, line);
+      return configContext ? this.getConfigKeyCompletions(document, lines, configContext, position) : [];
+    }
 
     // Parent link completion in links.*.yml files
     if (isLinksFile && this.isParentLinkContext(line)) {
@@ -44,6 +125,14 @@ export class YamlCompletionProvider extends BaseCompletionProvider {
       return this.getRouteCompletions(document, position);
     }
 
+    // Tag name completion in .services.yml files (before services, list items look like arguments)
+    if (isServicesFile) {
+      const tagContext = this.tagExtractor.findCompletionContext(text.split('\n'), position.line, line);
+      if (tagContext) {
+        return this.getServiceTagCompletions(tagContext, position);
+      }
+    }
+
     // Service completion in .services.yml files
     if (isServicesFile && this.isInServicesSection(text, offset)) {
       const completionType = this.detectCompletionType(line);
@@ -231,6 +320,229 @@ export class YamlCompletionProvider extends BaseCompletionProvider {
     return this.allRoutesCompletions(allRoutes, replaceRange, typedText);
   }
 
+  private getPermissionCompletions(line: string, position: Position): CompletionItem[] {
+    const permissionParser = getYamlPermissionParser();
+    if (!permissionParser) return [];
+
+    // Typed text may have leading spaces after a separator
+    const typedText = this.permissionExtractor.getTypedPermission(line);
+    const trimmedTyped = typedText.trimStart();
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - trimmedTyped.length,
+      position.line,
+      position.character
+    );
+
+    return this.allPermissionsCompletions(permissionParser.getAllPermissions(), replaceRange, trimmedTyped);
+  }
+
+  /**
+   * Complete known Drupal tags and tags used by indexed services
+   */
+  private getServiceTagCompletions(context: ServiceTagContext, position: Position): CompletionItem[] {
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    const tagNames = new Set([...SERVICE_TAGS.map((tag) => tag.name), ...getYamlServiceParser().getAllTagNames()]);
+
+    return [...tagNames].map((name) => {
+      const definition = SERVICE_TAGS.find((tag) => tag.name === name);
+      const count = getYamlServiceParser().getServicesByTag(name).length;
+
+      let documentation = definition ? `${definition.description}\n\n` : '';
+      if (definition && definition.requiredAttributes.length > 0) {
+        documentation += `**Requires:** ${definition.requiredAttributes.join(', ')}\n\n`;
+      }
+      documentation += `**Tagged services:** ${count}`;
+
+      return {
+        label: name,
+        kind: CompletionItemKind.Value,
+        detail: definition ? 'Drupal tag' : 'Custom tag',
+        documentation,
+        // Known tags first
+        sortText: `${definition ? '0' : '1'}_${name}`,
+        textEdit: TextEdit.replace(replaceRange, name),
+        filterText: name
+      };
+    });
+  }
+
+  private getConfigKeyCompletions(
+    document: TextDocument,
+    lines: string[],
+    context: ConfigKeyContext,
+    position: Position
+  ): CompletionItem[] {
+    const schemaParser = getYamlConfigSchemaParser();
+    if (!schemaParser) return [];
+
+    const configName = this.configExtractor.getConfigName(document.uri);
+    const data = this.configExtractor.parseData(lines, position.line);
+    const schema = schemaParser.resolvePath(configName, data, context.path);
+    if (!schema?.mapping) return [];
+
+    // Skip keys already set on the same mapping
+    let existing: unknown = data;
+    for (const key of context.path) {
+      existing = existing && typeof existing === 'object' ? (existing as Record<string, unknown>)[key] : undefined;
+    }
+    const existingKeys = existing && typeof existing === 'object' ? Object.keys(existing) : [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return Object.entries(schema.mapping)
+      .filter(([key]) => !existingKeys.includes(key))
+      .map(([key, element], index) => {
+        const child = schemaParser.resolvePath(configName, data, [...context.path, key]);
+
+        return {
+          label: key,
+          kind: CompletionItemKind.Property,
+          detail: child?.type ?? element.type,
+          documentation: child?.label,
+          // Keep schema order
+          sortText: index.toString().padStart(3, '0'),
+          textEdit: TextEdit.replace(replaceRange, `${key}: `),
+          filterText: key
+        };
+      });
+  }
+
+  private getInfoCompletions(
+    document: TextDocument,
+    context: InfoCompletionContext,
+    position: Position
+  ): CompletionItem[] {
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    const filePath = document.uri.replace('file://', '');
+    const machineName = path.basename(filePath, '.info.yml');
+    const extensions = getYamlInfoParser()?.getAllExtensions() ?? [];
+
+    const values = (items: Array<{ label: string; detail?: string; documentation?: string; sortText?: string }>) =>
+      items.map((item) => ({
+        kind: CompletionItemKind.Value,
+        ...item,
+        textEdit: TextEdit.replace(replaceRange, item.label),
+        filterText: item.label
+      }));
+
+    switch (context.key) {
+      case 'type':
+        return values([{ label: 'module' }, { label: 'theme' }, { label: 'profile' }]);
+
+      case 'core_version_requirement':
+        return values(YamlCompletionProvider.CORE_VERSION_REQUIREMENTS.map((label, index) => ({
+          label,
+          sortText: index.toString()
+        })));
+
+      case 'package': {
+        const packages = new Set(extensions.map((e) => e.package).filter((p): p is string => !!p));
+        return values([...packages].map((label) => ({ label })));
+      }
+
+      case 'configure': {
+        const routeParser = getYamlRouteParser();
+        if (!routeParser) return [];
+        return this.allRoutesCompletions(routeParser.getAllRoutes(), replaceRange, context.typedText);
+      }
+
+      case 'base theme':
+        return values([
+          { label: 'false', detail: 'No base theme' },
+          ...extensions
+            .filter((e) => e.type === 'theme' && e.machineName !== machineName)
+            .map((e) => ({
+              label: e.machineName,
+              detail: `[${e.sourceType}] ${e.name || ''}`,
+              sortText: this.getSortPrefix(e.sourceType) + e.machineName
+            }))
+        ]);
+
+      case 'dependencies':
+        return values(extensions
+          .filter((e) => e.type === 'module' && e.machineName !== machineName)
+          .map((e) => ({
+            label: `${e.project}:${e.machineName}`,
+            detail: `[${e.sourceType}] ${e.name || ''}`,
+            documentation: e.description,
+            sortText: this.getSortPrefix(e.sourceType) + e.machineName
+          })));
+
+      case 'libraries': {
+        const libraryParser = getYamlLibraryParser();
+        if (!libraryParser) return [];
+        return this.allLibrariesCompletions(libraryParser.getAllLibraries(), replaceRange, context.typedText);
+      }
+
+      case 'regions': {
+        const baseTheme = extensions.find((e) => e.machineName === machineName)?.baseTheme;
+        const baseRegions = typeof baseTheme === 'string'
+          ? extensions.find((e) => e.machineName === baseTheme)?.regions ?? {}
+          : {};
+        const defined = this.infoExtractor.findSectionKeys(document.getText().split('\n'), 'regions');
+        const regions = { ...YamlCompletionProvider.DEFAULT_REGIONS, ...baseRegions };
+
+        return Object.entries(regions)
+          .filter(([region]) => !defined.includes(region))
+          .map(([region, label]) => ({
+            label: region,
+            kind: CompletionItemKind.Property,
+            detail: label,
+            textEdit: TextEdit.replace(replaceRange, `${region}: '${label}'`),
+            filterText: region
+          }));
+      }
+    }
+  }
+
+  private getLibraryCompletions(context: LibraryContext, position: Position): CompletionItem[] {
+    const libraryParser = getYamlLibraryParser();
+    if (!libraryParser) return [];
+
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allLibrariesCompletions(libraryParser.getAllLibraries(), replaceRange, context.typedText);
+  }
+
+  private getPluginCompletions(context: PluginIdContext, position: Position): CompletionItem[] {
+    const pluginParser = getPluginParser();
+    if (!pluginParser) return [];
+
+    const plugins = context.types ? pluginParser.getPluginsByType(context.types) : pluginParser.getAllPlugins();
+    const replaceRange = Range.create(
+      position.line,
+      position.character - context.typedText.length,
+      position.line,
+      position.character
+    );
+
+    return this.allPluginsCompletions(plugins, replaceRange, context.typedText);
+  }
+
   /**
    * Check if line is in parent link context
    */
@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as YAML from 'yaml';
+
+export type ConfigEntryMatch = { path: string[]; key: string; value: unknown; line: number; start: number; end: number };
+
+export type ConfigKeyContext = { path: string[]; typedText: string };
+
+/**
+ * Extracts keys and values from config/install and config/optional YAML files
+ * Key paths lead from the config object to a key, sequence items are addressed by index
+ */
+export class YamlConfigExtractor {
+  isConfigFile(uri: string): boolean {
+    return /\/config\/(?:install|optional)\/[^/]+\.yml$/.test(uri);
+  }
+
+  /**
+   * Get config name from file name
+   * e.g. config/install/system.site.yml => system.site
+   */
+  getConfigName(uri: string): string {
+    return path.basename(uri, '.yml');
+  }
+
+  /**
+   * Parse config data, ignoring a line being edited so partial keys don't break the document
+   */
+  parseData(lines: string[], skipLine?: number): unknown {
+    try {
+      const content = skipLine === undefined ? lines : lines.map((line, i) => (i === skipLine ? '' : line));
+      return YAML.parse(content.join('\n')) ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Find all keys and sequence items with their key paths and positions
+   */
+  findEntries(text: string): ConfigEntryMatch[] {
+    const results: ConfigEntryMatch[] = [];
+    const lineCounter = new YAML.LineCounter();
+    const parsed = YAML.parseDocument(text, { lineCounter });
+    if (parsed.errors.length > 0) return results;
+
+    const visit = (node: unknown, parents: string[]) => {
+      const items: Array<{ key: string; keyNode: YAML.Node | null; value: unknown }> = [];
+
+      if (YAML.isMap(node)) {
+        for (const pair of node.items) {
+          if (!YAML.isScalar(pair.key)) continue;
+          items.push({ key: String(pair.key.value), keyNode: pair.key, value: pair.value });
+        }
+      } else if (YAML.isSeq(node)) {
+        node.items.forEach((item, index) => {
+          items.push({ key: index.toString(), keyNode: YAML.isNode(item) ? item : null, value: item });
+        });
+      }
+
+      for (const item of items) {
+        const range = item.keyNode?.range;
+        if (!range) continue;
+
+        const position = lineCounter.linePos(range[0]);
+        const length = YAML.isScalar(item.keyNode) ? range[1] - range[0] : 1;
+        const keyPath = [...parents, item.key];
+
+        results.push({
+          path: keyPath,
+          key: item.key,
+          value: YAML.isNode(item.value) ? item.value.toJSON() : item.value,
+          line: position.line - 1,
+          start: position.col - 1,
+          end: position.col - 1 + length
+        });
+
+        visit(item.value, keyPath);
+      }
+    };
+
+    visit(parsed.contents, []);
+    return results;
+  }
+
+  /**
+   * Find the key at a position
+   */
+  findEntryAt(text: string, line: number, character: number): ConfigEntryMatch | null {
+    return this.findEntries(text)
+      .find((entry) => entry.line === line && character >= entry.start && character <= entry.end) || null;
+  }
+
+  /**
+   * Get completion context when typing a key on its own line
+   */
+  findCompletionContext(lines: string[], lineNumber: number, prefix: string): ConfigKeyContext | null {
+    const match = prefix.match(/^(\s*)(-\s+)?([a-zA-Z0-9_.-]*)$/);
+    if (!match) return null;
+
+    const parents = this.getParents(lines, lineNumber, match[1].length);
+    if (match[2]) {
+      // A new sequence item, indexed after its preceding siblings
+      parents.push(this.countItems(lines, lineNumber, match[1].length).toString());
+    }
+
+    return { path: parents, typedText: match[3] };
+  }
+
+  /**
+   * Get the key path enclosing content at the given indentation
+   * List items count as the index of the item
+   */
+  private getParents(lines: string[], lineNumber: number, indent: number): string[] {
+    const parents: string[] = [];
+    let current = indent;
+
+    for (let i = lineNumber - 1; i >= 0 && current > 0; i--) {
+      const line = lines[i];
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const lineIndent = line.search(/\S/);
+      const itemMatch = line.match(/^(\s*)-\s+/);
+
+      // Content of a list item is indented past its dash
+      if (itemMatch && itemMatch[0].length <= current && lineIndent < current) {
+        parents.unshift(this.countItems(lines, i, lineIndent).toString());
+        current = lineIndent;
+        continue;
+      }
+
+      const keyMatch = line.match(/^(\s*)(['"]?)([^'"\s#:][^'"#:]*)\2:\s*$/);
+      if (keyMatch && lineIndent < current) {
+        parents.unshift(keyMatch[3]);
+        current = lineIndent;
+      } else if (keyMatch && lineIndent === current && parents[0]?.match(/^\d+$/)) {
+        // Sequences may be written at the same indentation as their key
+        parents.unshift(keyMatch[3]);
+      }
+    }
+
+    return parents;
+  }
+
+  /**
+   * Count list items at an indentation before a line, within the same sequence
+   */
+  private countItems(lines: string[], lineNumber: number, indent: number): number {
+    let count = 0;
+
+    for (let i = lineNumber - 1; i >= 0; i--) {
+      const line = lines[i];
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const lineIndent = line.search(/\S/);
+      if (lineIndent < indent) break;
+      if (lineIndent === indent) {
+        if (!/^\s*-(?:\s|$)/.test(line)) break;
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
@@ -1,8 +1,10 @@
 import { Definition, Location, Position, Range } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { IDefinitionProvider } from '../IDefinitionProvider';
-import { BaseClassResolver, ClassInfo } from '../base/BaseClassResolver';
+import { BaseDefinitionProvider } from '../base/BaseDefinitionProvider';
+import { ClassInfo } from '../base/BaseClassResolver';
 import { YamlServiceNameExtractor } from './YamlServiceNameExtractor';
+import { YamlRouteNameExtractor } from './YamlRouteNameExtractor';
+import { YamlPluginIdExtractor } from './YamlPluginIdExtractor';
 import { getYamlServiceParser } from '../../server';
 import { YamlServiceParser } from '../../parsers/YamlServiceParser';
 
@@ -11,16 +13,21 @@ import { YamlServiceParser } from '../../parsers/YamlServiceParser';
  * Handles go-to-definition for:
  * - PHP class names (class: Drupal\...)
  * - Service references (parent: service_name, @service_name)
+ * - Route references in links files (route_name:, base_route:, appears_on:)
+ * - Plugin IDs in block, display and migration config (plugin:, type:)
  */
-export class YamlDefinitionProvider implements IDefinitionProvider {
+export class YamlDefinitionProvider extends BaseDefinitionProvider {
   private yamlParser: YamlServiceParser;
   private extractor: YamlServiceNameExtractor;
-  private classResolver: BaseClassResolver;
+  private routeExtractor: YamlRouteNameExtractor;
+  private pluginExtractor: YamlPluginIdExtractor;
 
   constructor() {
+    super();
     this.extractor = new YamlServiceNameExtractor();
+    this.routeExtractor = new YamlRouteNameExtractor();
+    this.pluginExtractor = new YamlPluginIdExtractor();
     this.yamlParser = getYamlServiceParser();
-    this.classResolver = new BaseClassResolver(this.yamlParser.getDrupalRoot());
   }
 
   canProvide(document: TextDocument): boolean {
@@ -34,6 +41,20 @@ export class YamlDefinitionProvider implements IDefinitionProvider {
       end: { line: position.line, character: 1000 }
     });
 
+    // Route references in links files (checked first, route names look like class values)
+    if (document.uri.includes('.links.')) {
+      const routeName = this.routeExtractor.extractLinksRouteName(document.getText().split('\n'), position.line);
+      if (routeName) {
+        return this.resolveRouteDefinition(routeName);
+      }
+    }
+
+    // Plugin IDs (checked before classes, plugin values look like class values)
+    const plugin = this.pluginExtractor.extractPluginId(document.uri, document.getText(), position.line, position.character);
+    if (plugin) {
+      return this.resolvePluginDefinition(plugin.pluginId, plugin.types);
+    }
+
     // Check if we're on a class: line
     const classInfo = this.classResolver.extractClassFromRoutingLine(line, position.character);
     if (classInfo) {
@@ -64,9 +85,10 @@ export class YamlDefinitionProvider implements IDefinitionProvider {
 
   /**
    * Resolve service definition location
+   * Aliases jump to the service they resolve to
    */
   private async resolveServiceDefinition(serviceName: string): Promise<Definition | null> {
-    const service = this.yamlParser.getService(serviceName);
+    const service = this.yamlParser.resolveService(serviceName);
 
     if (!service || !service.sourceFile) {
       return null;
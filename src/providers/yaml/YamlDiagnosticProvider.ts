@@ -1,23 +1,60 @@
-import { Diagnostic } from 'vscode-languageserver';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { IDiagnosticProvider } from '../IDiagnosticProvider';
 import { BaseDiagnosticProvider } from '../base/BaseDiagnosticProvider';
-import { getYamlRouteParser, getYamlLinkParser } from '../../server';
+import { YamlPermissionNameExtractor } from './YamlPermissionNameExtractor';
+import { YamlPluginIdExtractor } from './YamlPluginIdExtractor';
+import { YamlInfoExtractor } from './YamlInfoExtractor';
+import { YamlLibraryExtractor } from './YamlLibraryExtractor';
+import { YamlConfigExtractor } from './YamlConfigExtractor';
+import { YamlServiceTagExtractor } from './YamlServiceTagExtractor';
+import { ServiceArgumentMatch, YamlServiceArgumentExtractor } from './YamlServiceArgumentExtractor';
+import { BaseClassResolver, PhpMethod } from '../base/BaseClassResolver';
+import { SERVICE_TAGS } from './ServiceTags';
+import { ConfigSchemaKind } from '../../parsers/YamlConfigSchemaParser';
+import {
+  getYamlRouteParser,
+  getYamlLinkParser,
+  getYamlInfoParser,
+  getYamlLibraryParser,
+  getYamlConfigSchemaParser,
+  getYamlServiceParser
+} from '../../server';
 
 /**
  * YAML Diagnostic Provider
- * Validates service and route references in YAML files
+ * Validates service, route, permission, plugin, and library references in YAML files, service tags and arguments,
+ * info file metadata and config/install files against config schema
  */
 export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements IDiagnosticProvider {
+  private permissionExtractor: YamlPermissionNameExtractor;
+  private pluginExtractor: YamlPluginIdExtractor;
+  private infoExtractor: YamlInfoExtractor;
+  private libraryExtractor: YamlLibraryExtractor;
+  private configExtractor: YamlConfigExtractor;
+  private tagExtractor: YamlServiceTagExtractor;
+  private argumentExtractor: YamlServiceArgumentExtractor;
+
   constructor() {
     super();
+    this.permissionExtractor = new YamlPermissionNameExtractor();
+    this.pluginExtractor = new YamlPluginIdExtractor();
+    this.infoExtractor = new YamlInfoExtractor();
+    this.libraryExtractor = new YamlLibraryExtractor();
+    this.configExtractor = new YamlConfigExtractor();
+    this.tagExtractor = new YamlServiceTagExtractor();
+    this.argumentExtractor = new YamlServiceArgumentExtractor();
   }
 
   canProvide(document: TextDocument): boolean {
     const uri = document.uri;
-    return uri.endsWith('.services.yml') || uri.endsWith('.links.task.yml') ||
+    return uri.endsWith('.services.yml') || uri.endsWith('.routing.yml') || uri.endsWith('.links.task.yml') ||
       uri.endsWith('.links.menu.yml') || uri.endsWith('.links.action.yml') ||
-      uri.endsWith('.links.contextual.yml');
+      uri.endsWith('.links.contextual.yml') || this.pluginExtractor.isPluginFile(uri) ||
+      this.infoExtractor.isInfoFile(uri) || this.libraryExtractor.isLibrariesFile(uri) ||
+      this.configExtractor.isConfigFile(uri);
   }
 
   async provideDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
@@ -27,6 +64,13 @@ export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements ID
     // Service validation for .services.yml files
     if (uri.endsWith('.services.yml')) {
       diagnostics.push(...this.validateServices(document));
+      diagnostics.push(...this.validateServiceTags(document));
+      diagnostics.push(...this.validateServiceArguments(document));
+    }
+
+    // Permission validation for .routing.yml files
+    if (uri.endsWith('.routing.yml')) {
+      diagnostics.push(...this.validatePermissions(document));
     }
 
     // Route, parent, and appears_on validation for links.*.yml files
@@ -36,6 +80,261 @@ export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements ID
       diagnostics.push(...this.validateAppearsOn(document));
     }
 
+    // Plugin validation for block, display and migration config
+    if (this.pluginExtractor.isPluginFile(uri)) {
+      diagnostics.push(...this.validatePlugins(document));
+    }
+
+    // Required keys, dependencies, libraries and configure route for *.info.yml files
+    if (this.infoExtractor.isInfoFile(uri)) {
+      diagnostics.push(...this.validateInfo(document));
+    }
+
+    // Dependencies and asset files for *.libraries.yml files
+    if (this.libraryExtractor.isLibrariesFile(uri)) {
+      diagnostics.push(...this.validateLibraries(document));
+    }
+
+    // Keys and value types for config/install and config/optional files
+    if (this.configExtractor.isConfigFile(uri)) {
+      diagnostics.push(...this.validateConfig(document));
+    }
+
+    return diagnostics;
+  }
+
+  private validateConfig(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const schemaParser = getYamlConfigSchemaParser();
+    if (!schemaParser || schemaParser.getAllTypes().length === 0) return diagnostics;
+
+    const text = document.getText();
+    const lines = text.split('\n');
+    const configName = this.configExtractor.getConfigName(document.uri);
+    const data = this.configExtractor.parseData(lines);
+
+    const root = schemaParser.resolvePath(configName, data, []);
+    if (!root) {
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(0, 0, 0, lines[0].length),
+        message: `No config schema found for '${configName}'`,
+        source: 'drupal-lsp'
+      });
+      return diagnostics;
+    }
+
+    for (const entry of this.configExtractor.findEntries(text)) {
+      const parent = schemaParser.resolvePath(configName, data, entry.path.slice(0, -1));
+      if (!parent) continue;
+
+      const schema = schemaParser.resolvePath(configName, data, entry.path);
+      if (!schema) {
+        // Only mappings fully resolved to core types know all their keys
+        if (parent.kind === 'mapping') {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: Range.create(entry.line, entry.start, entry.line, entry.end),
+            message: `Key '${entry.key}' is not defined in config schema '${parent.type}'`,
+            source: 'drupal-lsp'
+          });
+        }
+        continue;
+      }
+
+      const actual = this.getConfigValueKind(entry.value);
+      if (schema.kind && actual && !this.isConfigValueOfKind(entry.value, schema.kind)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range: Range.create(entry.line, entry.start, entry.line, entry.end),
+          message: `Expected ${schema.kind} for '${entry.key}', got ${actual}`,
+          source: 'drupal-lsp'
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Describe a config value for type mismatch messages, null for empty values
+   */
+  private getConfigValueKind(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) return 'sequence';
+    if (typeof value === 'object') return 'mapping';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'float';
+    return typeof value;
+  }
+
+  /**
+   * Check a value against a schema kind
+   * Drupal casts scalars when saving config, so only booleans and numbers are strict
+   */
+  private isConfigValueOfKind(value: unknown, kind: ConfigSchemaKind): boolean {
+    const isList = Array.isArray(value);
+    const isObject = typeof value === 'object' && value !== null;
+
+    switch (kind) {
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'float':
+        return typeof value === 'number';
+      case 'string':
+      case 'email':
+      case 'uri':
+        return !isObject;
+      case 'mapping':
+        // Empty mappings are exported as []
+        return isObject && (!isList || (value as unknown[]).length === 0);
+      case 'sequence':
+        return isObject;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Validate required attributes of known tags and numeric priorities
+   */
+  private validateServiceTags(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const match of this.tagExtractor.findTags(document.getText())) {
+      const definition = SERVICE_TAGS.find((tag) => tag.name === match.tag);
+
+      for (const attribute of definition?.requiredAttributes ?? []) {
+        if (!match.attributes.some((a) => a.key === attribute)) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: Range.create(match.line, match.start, match.line, match.end),
+            message: `Tag '${match.tag}' requires '${attribute}'`,
+            source: 'drupal-lsp'
+          });
+        }
+      }
+
+      const priority = match.attributes.find((a) => a.key === 'priority');
+      if (priority && !Number.isInteger(priority.value)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Error,
+          range: Range.create(priority.line, priority.start, priority.line, priority.end),
+          message: `Tag priority must be an integer, got '${String(priority.value)}'`,
+          source: 'drupal-lsp'
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private validateLibraries(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const lines = document.getText().split('\n');
+
+    for (const match of this.libraryExtractor.findDependencies(lines)) {
+      if (!this.libraryExists(match.library)) {
+        diagnostics.push(this.createLibraryNotFoundDiagnostic(match.line, match.start, match.end, match.library));
+      }
+    }
+
+    // Paths starting with / are relative to the Drupal root, others to the libraries file
+    const directory = path.dirname(document.uri.replace('file://', ''));
+    const drupalRoot = getYamlLibraryParser()?.getDrupalRoot();
+
+    for (const asset of this.libraryExtractor.findAssetPaths(lines)) {
+      if (asset.external) continue;
+
+      const assetPath = asset.path.startsWith('/') && drupalRoot
+        ? path.join(drupalRoot, asset.path)
+        : path.join(directory, asset.path);
+
+      if (!fs.existsSync(assetPath)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range: Range.create(asset.line, asset.start, asset.line, asset.end),
+          message: `File '${asset.path}' not found`,
+          source: 'drupal-lsp'
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private validateInfo(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const lines = document.getText().split('\n');
+    const keys = this.infoExtractor.getTopLevelKeys(lines);
+
+    for (const key of YamlInfoExtractor.REQUIRED_KEYS) {
+      if (!keys.includes(key)) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Error,
+          range: Range.create(0, 0, 0, lines[0].length),
+          message: `Missing required key '${key}'`,
+          source: 'drupal-lsp'
+        });
+      }
+    }
+
+    if (!this.infoExtractor.isCoreInfoFile(document.uri) &&
+      !YamlInfoExtractor.CORE_VERSION_KEYS.some((key) => keys.includes(key))) {
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(0, 0, 0, lines[0].length),
+        message: "Missing required key 'core_version_requirement'",
+        source: 'drupal-lsp'
+      });
+    }
+
+    // Without indexed info files every dependency would be reported
+    const infoParser = getYamlInfoParser();
+    if (infoParser && infoParser.getAllExtensions().length > 0) {
+      for (const dependency of this.infoExtractor.findListItems(lines, 'dependencies')) {
+        const name = this.infoExtractor.getDependencyName(dependency.value);
+        if (!infoParser.getExtension(name)) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: Range.create(dependency.line, dependency.start, dependency.line, dependency.end),
+            message: `Unknown dependency '${name}'`,
+            source: 'drupal-lsp'
+          });
+        }
+      }
+    }
+
+    for (const library of this.infoExtractor.findListItems(lines, 'libraries')) {
+      if (!this.libraryExists(library.value)) {
+        diagnostics.push(this.createLibraryNotFoundDiagnostic(library.line, library.start, library.end, library.value));
+      }
+    }
+
+    const configure = this.infoExtractor.findScalarValue(lines, 'configure');
+    const routeParser = getYamlRouteParser();
+    if (configure && routeParser && !routeParser.getRoute(configure.value) &&
+      !this.isDynamicRoutePattern(configure.value)) {
+      diagnostics.push(
+        this.createRouteNotFoundDiagnostic(configure.line, configure.start, configure.end, configure.value)
+      );
+    }
+
+    return diagnostics;
+  }
+
+  private validatePlugins(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const match of this.pluginExtractor.findPluginIds(document.uri, document.getText())) {
+      if (!this.pluginExists(match.pluginId, match.types)) {
+        diagnostics.push(
+          this.createPluginNotFoundDiagnostic(match.line, match.start, match.end, match.pluginId)
+        );
+      }
+    }
+
     return diagnostics;
   }
 
@@ -65,12 +364,12 @@ export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements ID
         }
       }
 
-      // Check @service references in arguments
-      const argMatches = line.matchAll(/@([a-zA-Z0-9_.]+)/g);
+      // Check @service references in arguments, skipping @ inside other values like emails
+      const argMatches = line.matchAll(/(?<=(?:^\s*-|[[,])\s*|['"])@([a-zA-Z0-9_.]+)/g);
       for (const match of argMatches) {
         const serviceName = match[1];
         if (!availableServices.has(serviceName)) {
-          const startChar = line.indexOf(match[0]);
+          const startChar = match.index ?? 0;
           diagnostics.push(
             this.createServiceNotFoundDiagnostic(
               i,
@@ -86,6 +385,157 @@ export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements ID
     return diagnostics;
   }
 
+  /**
+   * Compare service arguments and calls with the constructor and method parameters of the service class
+   * Child services inherit the class and arguments of their parent, their own arguments are appended
+   */
+  private validateServiceArguments(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const serviceParser = getYamlServiceParser();
+    const classResolver = new BaseClassResolver(serviceParser.getDrupalRoot());
+
+    for (const definition of this.argumentExtractor.findDefinitions(document.getText())) {
+      const parent = definition.parent ? serviceParser.getService(definition.parent) : null;
+      const className = definition.class ?? (parent ? serviceParser.getServiceClass(parent.name) : undefined);
+      if (!className || definition.hasFactory) continue;
+
+      const keyRange = definition.argumentsKey ?? definition;
+      const range = Range.create(keyRange.line, keyRange.start, keyRange.line, keyRange.end);
+
+      const constructor = definition.arguments ? classResolver.findMethod(className, '__construct') : undefined;
+      const inherited = Array.isArray(parent?.arguments) ? parent.arguments.length : 0;
+
+      // Autowired services get their remaining arguments from the container, abstract ones from their children
+      if (definition.arguments && constructor !== undefined && !definition.isAbstract && !definition.autowire) {
+        const diagnostic = this.checkArgumentCount(
+          `Service '${definition.service}'`,
+          inherited + definition.arguments.length,
+          constructor ?? { className, filePath: '', line: 0, parameters: [] },
+          '__construct',
+          range
+        );
+        if (diagnostic) diagnostics.push(diagnostic);
+      }
+
+      if (definition.arguments && constructor) {
+        diagnostics.push(...this.checkArgumentTypes(definition.arguments, constructor, inherited, classResolver));
+      }
+
+      for (const call of definition.calls) {
+        const callRange = Range.create(call.line, call.start, call.line, call.end);
+        const method = classResolver.findMethod(className, call.method);
+
+        if (method === null && !classResolver.findMethod(className, '__call')) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: callRange,
+            message: `Method '${call.method}' called by service '${definition.service}' does not exist in ${className}`,
+            source: 'drupal-lsp'
+          });
+          continue;
+        }
+        if (!method || !call.arguments) continue;
+
+        const diagnostic = this.checkArgumentCount(
+          `Call to '${call.method}'`,
+          call.arguments.length,
+          method,
+          call.method,
+          callRange
+        );
+        if (diagnostic) diagnostics.push(diagnostic);
+        diagnostics.push(...this.checkArgumentTypes(call.arguments, method, 0, classResolver));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Too few arguments fail when the container builds the service, extra arguments are silently ignored
+   */
+  private checkArgumentCount(
+    label: string,
+    count: number,
+    method: PhpMethod,
+    methodName: string,
+    range: Range
+  ): Diagnostic | null {
+    const required = method.parameters.filter((parameter) => !parameter.optional).length;
+    const max = method.parameters.length;
+    const isVariadic = method.parameters.some((parameter) => parameter.variadic);
+    const expected = required === max ? `${max}` : isVariadic ? `at least ${required}` : `${required} to ${max}`;
+
+    if (count >= required && (count <= max || isVariadic)) return null;
+
+    return {
+      severity: count < required ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      range,
+      message: `${label} passes ${count} argument${count === 1 ? '' : 's'}, ` +
+        `but ${method.className}::${methodName}() expects ${expected}`,
+      source: 'drupal-lsp'
+    };
+  }
+
+  /**
+   * Check @service arguments against the class or interface type of the parameter they are passed to
+   * Only reported when the whole class hierarchy of the argument service can be resolved
+   */
+  private checkArgumentTypes(
+    args: ServiceArgumentMatch[],
+    method: PhpMethod,
+    offset: number,
+    classResolver: BaseClassResolver
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const [index, arg] of args.entries()) {
+      const parameter = method.parameters[Math.min(offset + index, method.parameters.length - 1)];
+      if (!parameter?.type || (!parameter.variadic && offset + index >= method.parameters.length)) continue;
+
+      const serviceName = typeof arg.value === 'string' ? arg.value.match(/^@\??([^@].*)$/)?.[1] : undefined;
+      if (!serviceName) continue;
+
+      // Builtin, intersection and DNF types are not checked
+      const types = parameter.type.split('|');
+      if (/[&()]/.test(parameter.type) || types.some((type) => !type.includes('\\') && /^[a-z]/.test(type))) continue;
+
+      const argumentClass = getYamlServiceParser().getServiceClass(serviceName);
+      if (!argumentClass) continue;
+
+      const ancestors = classResolver.getClassAncestors(argumentClass);
+      const matches = types.some((type) => type === argumentClass || ancestors.names.has(type));
+      if (matches || !ancestors.complete) continue;
+
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(arg.line, arg.start, arg.line, arg.end),
+        message: `Service '${serviceName}' (${argumentClass}) does not match type ${parameter.type} ` +
+          `of parameter $${parameter.name}`,
+        source: 'drupal-lsp'
+      });
+    }
+
+    return diagnostics;
+  }
+
+  private validatePermissions(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const lines = document.getText().split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      for (const match of this.permissionExtractor.extractAllPermissions(lines[i])) {
+        if (!this.permissionExists(match.permissionName)) {
+          diagnostics.push(
+            this.createPermissionNotFoundDiagnostic(i, match.start, match.end, match.permissionName)
+          );
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
   private validateRoutes(document: TextDocument): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const routeParser = getYamlRouteParser();
@@ -132,39 +582,6 @@ export class YamlDiagnosticProvider extends BaseDiagnosticProvider implements ID
     return diagnostics;
   }
 
-  /**
-   * Check if route is a dynamic route pattern that we can't validate
-   * More permissive - only skip validation for truly dynamic patterns
-   */
-  private isDynamicRoutePattern(routeName: string): boolean {
-    const dynamicPrefixes = [
-      'view.',
-      'rest.',
-      'jsonapi.',
-      'layout_builder.',
-      'field_ui.'
-    ];
-
-    return dynamicPrefixes.some((prefix) => routeName.startsWith(prefix));
-  }
-
-  private createRouteNotFoundDiagnostic(
-    line: number,
-    startChar: number,
-    endChar: number,
-    routeName: string
-  ): Diagnostic {
-    return {
-      severity: 1, // Error
-      range: {
-        start: { line, character: startChar },
-        end: { line, character: endChar }
-      },
-      message: `Route '${routeName}' not found`,
-      source: 'drupal-lsp'
-    };
-  }
-
   private validateParentLinks(document: TextDocument): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const linkParser = getYamlLinkParser();
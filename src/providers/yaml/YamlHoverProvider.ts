@@ -5,23 +5,37 @@ import { BaseServiceProvider } from '../base/BaseServiceProvider';
 import { BaseClassResolver } from '../base/BaseClassResolver';
 import { HoverContentBuilder } from '../base/HoverContentBuilder';
 import { YamlServiceNameExtractor } from './YamlServiceNameExtractor';
-import { getYamlServiceParser } from '../../server';
+import { YamlPermissionNameExtractor } from './YamlPermissionNameExtractor';
+import { YamlRouteNameExtractor } from './YamlRouteNameExtractor';
+import { YamlConfigExtractor } from './YamlConfigExtractor';
+import {
+  getYamlConfigSchemaParser,
+  getYamlPermissionParser,
+  getYamlRouteParser,
+  getYamlServiceParser
+} from '../../server';
 import { YamlServiceParser } from '../../parsers/YamlServiceParser';
 
 /**
  * YAML Hover Provider
- * Shows service and class information on hover in YAML files
- * Supports: .services.yml, .routing.yml
+ * Shows service, route, permission, class and config schema information on hover in YAML files
+ * Supports: .services.yml, .routing.yml, .links.*.yml, config/install/*.yml
  */
 export class YamlHoverProvider extends BaseServiceProvider implements IHoverProvider {
   private yamlParser: YamlServiceParser;
   private extractor: YamlServiceNameExtractor;
+  private permissionExtractor: YamlPermissionNameExtractor;
+  private routeExtractor: YamlRouteNameExtractor;
+  private configExtractor: YamlConfigExtractor;
   private readonly classResolver: BaseClassResolver;
   private contentBuilder: HoverContentBuilder;
 
   constructor() {
     super();
     this.extractor = new YamlServiceNameExtractor();
+    this.permissionExtractor = new YamlPermissionNameExtractor();
+    this.routeExtractor = new YamlRouteNameExtractor();
+    this.configExtractor = new YamlConfigExtractor();
     this.yamlParser = getYamlServiceParser();
     this.classResolver = new BaseClassResolver(this.yamlParser.getDrupalRoot());
     this.contentBuilder = new HoverContentBuilder(this.classResolver);
@@ -38,6 +52,25 @@ export class YamlHoverProvider extends BaseServiceProvider implements IHoverProv
       end: { line: position.line, character: 1000 }
     });
 
+    // For config files: show the schema label and type of keys
+    if (this.configExtractor.isConfigFile(document.uri)) {
+      return this.buildConfigKeyHover(document, position);
+    }
+
+    // For links files: check for route hover (before class, values look alike)
+    if (document.uri.includes('.links.')) {
+      const routeName = this.routeExtractor.extractLinksRouteName(document.getText().split('\n'), position.line);
+      if (routeName) {
+        return this.buildRouteHover(routeName);
+      }
+    }
+
+    // For routing.yml: check for permission hover (before class, values look alike)
+    if (document.uri.endsWith('.routing.yml') && this.permissionExtractor.extractAllPermissions(line).length > 0) {
+      const permissionName = this.permissionExtractor.extractPermissionName(line, position.character);
+      return permissionName ? this.buildPermissionHover(permissionName) : null;
+    }
+
     // For routing.yml: check for class hover
     const classInfo = this.classResolver.extractClassFromRoutingLine(line, position.character);
     if (classInfo) {
@@ -77,4 +110,63 @@ export class YamlHoverProvider extends BaseServiceProvider implements IHoverProv
 
     return null;
   }
+
+  private async buildRouteHover(routeName: string): Promise<Hover> {
+    const route = getYamlRouteParser().getRoute(routeName);
+    const content = route
+      ? await this.contentBuilder.buildRouteHover(route)
+      : this.contentBuilder.buildUndefinedRouteHover(routeName);
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content
+      }
+    };
+  }
+
+  private buildPermissionHover(permissionName: string): Hover {
+    const permission = getYamlPermissionParser().getPermission(permissionName);
+    const content = permission
+      ? this.contentBuilder.buildPermissionHover(permission, permissionName)
+      : this.contentBuilder.buildUndefinedPermissionHover(permissionName);
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content
+      }
+    };
+  }
+
+  private buildConfigKeyHover(document: TextDocument, position: Position): Hover | null {
+    const schemaParser = getYamlConfigSchemaParser();
+    if (!schemaParser) return null;
+
+    const text = document.getText();
+    const entry = this.configExtractor.findEntryAt(text, position.line, position.character);
+    if (!entry) return null;
+
+    const configName = this.configExtractor.getConfigName(document.uri);
+    const data = this.configExtractor.parseData(text.split('\n'));
+    const schema = schemaParser.resolvePath(configName, data, entry.path);
+    if (!schema) return null;
+
+    let content = schema.label ? `**${schema.label}**\n\n` : '';
+    content += `**Key:** \`${entry.path.join('.')}\`\n\n`;
+
+    if (schema.definition) {
+      const line = parseInt(schema.definition.sourceLine, 10);
+      content += `**Type:** [\`${schema.type}\`](file://${schema.definition.sourceFile}#${line})`;
+    } else {
+      content += `**Type:** \`${schema.type}\``;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content
+      }
+    };
+  }
 }
@@ -0,0 +1,152 @@
+export type InfoCompletionKey =
+  'type' | 'core_version_requirement' | 'package' | 'configure' | 'base theme' | 'dependencies' | 'libraries' | 'regions';
+
+export type InfoCompletionContext = { key: InfoCompletionKey; typedText: string };
+
+export type InfoValueMatch = { value: string; line: number; start: number; end: number };
+
+/**
+ * Extracts keys and values from *.info.yml files
+ * Handles top-level scalars (type:, configure:, base theme:), list items
+ * under dependencies: and libraries:, and region keys under regions:
+ */
+export class YamlInfoExtractor {
+  static readonly REQUIRED_KEYS = ['name', 'type'];
+
+  // Core extensions use version: VERSION instead, core: 8.x is the legacy form
+  static readonly CORE_VERSION_KEYS = ['core_version_requirement', 'core'];
+
+  private static readonly SCALAR_KEYS = ['type', 'core_version_requirement', 'package', 'configure', 'base theme'];
+  private static readonly LIST_KEYS = ['dependencies', 'libraries'];
+
+  isInfoFile(uri: string): boolean {
+    return uri.endsWith('.info.yml');
+  }
+
+  /**
+   * Check if info file belongs to a core extension, e.g. core/modules/node/node.info.yml
+   */
+  isCoreInfoFile(uri: string): boolean {
+    return /\/core\/(?:modules|themes|profiles)\//.test(uri);
+  }
+
+  /**
+   * Get completion context at the end of a line prefix
+   */
+  findCompletionContext(lines: string[], lineNumber: number, prefix: string): InfoCompletionContext | null {
+    const scalarMatch = prefix.match(/^([a-z_][a-z_ ]*):\s*['"]?([^'"]*)$/);
+    if (scalarMatch && YamlInfoExtractor.SCALAR_KEYS.includes(scalarMatch[1])) {
+      return { key: scalarMatch[1] as InfoCompletionKey, typedText: scalarMatch[2] };
+    }
+
+    const section = this.findSection(lines, lineNumber - 1);
+
+    const listMatch = prefix.match(/^\s*-\s*['"]?([^'"]*)$/);
+    if (listMatch && section && YamlInfoExtractor.LIST_KEYS.includes(section)) {
+      return { key: section as InfoCompletionKey, typedText: listMatch[1] };
+    }
+
+    const regionMatch = prefix.match(/^\s+([a-z0-9_]*)$/);
+    if (regionMatch && section === 'regions') {
+      return { key: 'regions', typedText: regionMatch[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the value of a top-level scalar key
+   */
+  findScalarValue(lines: string[], key: string): InfoValueMatch | null {
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(/^([a-z_][a-z_ ]*):(\s*['"]?)([^'"#]*)/);
+      if (!match || match[1] !== key) continue;
+
+      const value = match[3].trim();
+      if (!value) return null;
+
+      const start = match[1].length + 1 + match[2].length;
+      return { value, line: i, start, end: start + value.length };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find list items under a top-level key, e.g. dependencies:
+   */
+  findListItems(lines: string[], key: string): InfoValueMatch[] {
+    const results: InfoValueMatch[] = [];
+    let inSection = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const sectionMatch = lines[i].match(/^([a-z_][a-z_ ]*):/);
+      if (sectionMatch) {
+        inSection = sectionMatch[1] === key;
+        continue;
+      }
+      if (!inSection) continue;
+
+      const match = lines[i].match(/^(\s*-\s*['"]?)([^'"#]*)/);
+      if (!match) continue;
+
+      const value = match[2].trim();
+      if (!value) continue;
+
+      results.push({ value, line: i, start: match[1].length, end: match[1].length + value.length });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get keys of a top-level map, e.g. region names under regions:
+   */
+  findSectionKeys(lines: string[], key: string): string[] {
+    const results: string[] = [];
+    let inSection = false;
+
+    for (const line of lines) {
+      const sectionMatch = line.match(/^([a-z_][a-z_ ]*):/);
+      if (sectionMatch) {
+        inSection = sectionMatch[1] === key;
+        continue;
+      }
+
+      const match = inSection ? line.match(/^\s+([a-z0-9_]+):/) : null;
+      if (match) results.push(match[1]);
+    }
+
+    return results;
+  }
+
+  /**
+   * Get top-level keys defined in the file
+   */
+  getTopLevelKeys(lines: string[]): string[] {
+    return lines
+      .map((line) => line.match(/^([a-z_][a-z_ ]*):/)?.[1])
+      .filter((key): key is string => key !== undefined);
+  }
+
+  /**
+   * Get module name from a dependency entry
+   * e.g. "drupal:node (>=10.1)" => node
+   */
+  getDependencyName(dependency: string): string {
+    const withoutVersion = dependency.split(/\s*\(/)[0].trim();
+    const parts = withoutVersion.split(':');
+    return parts[parts.length - 1];
+  }
+
+  /**
+   * Get the top-level key a line belongs to
+   */
+  private findSection(lines: string[], lineNumber: number): string | null {
+    for (let i = lineNumber; i >= 0; i--) {
+      const match = lines[i].match(/^([a-z_][a-z_ ]*):/);
+      if (match) return match[1];
+    }
+    return null;
+  }
+}
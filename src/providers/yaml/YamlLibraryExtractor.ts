@@ -0,0 +1,109 @@
+export type LibraryMatch = { library: string; line: number; start: number; end: number };
+
+export type LibraryContext = { typedText: string };
+
+export type LibraryAssetMatch = { path: string; external: boolean; line: number; start: number; end: number };
+
+type LibraryKey = { indent: number; key: string };
+
+/**
+ * Extracts library references and asset paths from *.libraries.yml files
+ * Handles dependencies: list items and file keys under css: (per category) and js:
+ */
+export class YamlLibraryExtractor {
+  // Group 1 is the indentation, group 3 a quoted key and group 4 a plain key
+  private static readonly KEY_PATTERN = /^(\s*)(?:(['"])(.+?)\2|([^\s'"#-][^#]*?))\s*:(?:\s|$)/;
+  private static readonly LIST_ITEM_PATTERN = /^(\s*-\s*['"]?)([^'"#\s]*)/;
+
+  isLibrariesFile(uri: string): boolean {
+    return uri.endsWith('.libraries.yml');
+  }
+
+  /**
+   * Get completion context at the end of a line prefix
+   * Only list items under a library's dependencies: key complete
+   */
+  findCompletionContext(lines: string[], lineNumber: number, prefix: string): LibraryContext | null {
+    const match = prefix.match(/^\s*-\s*['"]?([a-zA-Z0-9_./-]*)$/);
+    if (!match) return null;
+
+    const parents = this.getParents(lines, lineNumber, prefix.search(/\S/));
+    return parents.length === 2 && parents[1] === 'dependencies' ? { typedText: match[1] } : null;
+  }
+
+  /**
+   * Find all library dependencies with their positions
+   */
+  findDependencies(lines: string[]): LibraryMatch[] {
+    const results: LibraryMatch[] = [];
+
+    this.walk(lines, (line, i, parents) => {
+      if (parents.length !== 2 || parents[1] !== 'dependencies') return;
+
+      const match = line.match(YamlLibraryExtractor.LIST_ITEM_PATTERN);
+      if (!match || !match[2]) return;
+
+      const start = match[1].length;
+      results.push({ library: match[2], line: i, start, end: start + match[2].length });
+    });
+
+    return results;
+  }
+
+  /**
+   * Find CSS and JS file keys with their positions
+   * CSS files are nested one level deeper, below their category
+   */
+  findAssetPaths(lines: string[]): LibraryAssetMatch[] {
+    const results: LibraryAssetMatch[] = [];
+
+    this.walk(lines, (line, i, parents) => {
+      const isJs = parents.length === 2 && parents[1] === 'js';
+      const isCss = parents.length === 3 && parents[1] === 'css';
+      if (!isJs && !isCss) return;
+
+      const match = line.match(YamlLibraryExtractor.KEY_PATTERN);
+      if (!match) return;
+
+      const assetPath = match[3] ?? match[4];
+      const start = match[1].length + (match[2] ? 1 : 0);
+      const external = /^(?:[a-z]+:)?\/\//.test(assetPath) || /type:\s*['"]?external/.test(line);
+      results.push({ path: assetPath, external, line: i, start, end: start + assetPath.length });
+    });
+
+    return results;
+  }
+
+  /**
+   * Walk content lines with the keys enclosing each line
+   */
+  private walk(lines: string[], visit: (line: string, lineNumber: number, parents: string[]) => void): void {
+    const stack: LibraryKey[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const indent = line.search(/\S/);
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+      visit(line, i, stack.map((entry) => entry.key));
+
+      const match = line.match(YamlLibraryExtractor.KEY_PATTERN);
+      if (match) stack.push({ indent, key: match[3] ?? match[4] });
+    }
+  }
+
+  /**
+   * Get the keys enclosing a line at the given indentation
+   */
+  private getParents(lines: string[], lineNumber: number, indent: number): string[] {
+    let parents: string[] = [];
+
+    this.walk([...lines.slice(0, lineNumber), ' '.repeat(indent) + '-'], (_line, i, keys) => {
+      if (i === lineNumber) parents = keys;
+    });
+
+    return parents;
+  }
+}
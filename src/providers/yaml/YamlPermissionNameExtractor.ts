@@ -0,0 +1,58 @@
+export type PermissionMatch = { permissionName: string; start: number; end: number };
+
+/**
+ * Extracts permission names from YAML routing files
+ * Handles _permission requirements with AND (,) and OR (+) lists:
+ * - _permission: 'access content'
+ * - _permission: 'administer nodes+bypass node access'
+ */
+export class YamlPermissionNameExtractor {
+  /**
+   * Check if line is in permission context (after "_permission:")
+   */
+  isPermissionContext(line: string): boolean {
+    return /^\s*_permission:\s*['"]?[^'"]*$/.test(line);
+  }
+
+  /**
+   * Extract typed permission for autocomplete (text after the last separator)
+   */
+  getTypedPermission(line: string): string {
+    const match = line.match(/^\s*_permission:\s*['"]?([^'"]*)$/);
+    if (!match) return '';
+
+    const parts = match[1].split(/[+,]/);
+    return parts[parts.length - 1];
+  }
+
+  /**
+   * Extract all permission names with their positions
+   */
+  extractAllPermissions(line: string): PermissionMatch[] {
+    const match = line.match(/^(\s*_permission:\s*['"]?)([^'"#]*)/);
+    if (!match) return [];
+
+    const results: PermissionMatch[] = [];
+    let offset = match[1].length;
+
+    for (const part of match[2].split(/[+,]/)) {
+      const permissionName = part.trim();
+      if (permissionName) {
+        const start = offset + part.indexOf(permissionName);
+        results.push({ permissionName, start, end: start + permissionName.length });
+      }
+      offset += part.length + 1;
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract permission name at given character position
+   */
+  extractPermissionName(line: string, character: number): string | null {
+    const match = this.extractAllPermissions(line)
+      .find((m) => character >= m.start && character <= m.end);
+    return match ? match.permissionName : null;
+  }
+}
@@ -0,0 +1,130 @@
+import * as path from 'path';
+
+// types is null when any plugin type is accepted
+export type PluginIdMatch = { pluginId: string; types: string[] | null; line: number; start: number; end: number };
+
+export type PluginIdContext = { types: string[] | null; typedText: string };
+
+type PluginIdRule = { pattern: RegExp; section?: string; types: string[] };
+
+/**
+ * Extracts plugin IDs from YAML config files
+ * Handles:
+ * - block.block.*.yml: plugin: and settings: id:
+ * - core.entity_view_display.*.yml / core.entity_form_display.*.yml: content: field: type:
+ * - Migrations (migrations/*.yml, migrate_plus.migration.*.yml): plugin: in source, process and destination
+ */
+export class YamlPluginIdExtractor {
+  // Group 1 is the key, group 2 an optional quote and group 3 the ID
+  private static readonly BLOCK_PLUGIN = /^(plugin:\s*)(['"]?)([a-zA-Z0-9_:.-]*)/;
+  private static readonly BLOCK_SETTINGS_ID = /^(\s{2}id:\s*)(['"]?)([a-zA-Z0-9_:.-]*)/;
+  private static readonly DISPLAY_COMPONENT_TYPE = /^(\s{4}type:\s*)(['"]?)([a-zA-Z0-9_:.-]*)/;
+  private static readonly MIGRATION_PLUGIN = /^(\s*(?:-\s*)?plugin:\s*)(['"]?)([a-zA-Z0-9_:.-]*)/;
+
+  private static readonly BLOCK_RULES: PluginIdRule[] = [
+    { pattern: YamlPluginIdExtractor.BLOCK_PLUGIN, types: ['Block'] },
+    { pattern: YamlPluginIdExtractor.BLOCK_SETTINGS_ID, section: 'settings', types: ['Block'] }
+  ];
+
+  private static readonly VIEW_DISPLAY_RULES: PluginIdRule[] = [
+    { pattern: YamlPluginIdExtractor.DISPLAY_COMPONENT_TYPE, section: 'content', types: ['FieldFormatter'] }
+  ];
+
+  private static readonly FORM_DISPLAY_RULES: PluginIdRule[] = [
+    { pattern: YamlPluginIdExtractor.DISPLAY_COMPONENT_TYPE, section: 'content', types: ['FieldWidget'] }
+  ];
+
+  private static readonly MIGRATION_RULES: PluginIdRule[] = [
+    { pattern: YamlPluginIdExtractor.MIGRATION_PLUGIN, section: 'source', types: ['MigrateSource'] },
+    { pattern: YamlPluginIdExtractor.MIGRATION_PLUGIN, section: 'process', types: ['MigrateProcessPlugin', 'MigrateProcess'] },
+    { pattern: YamlPluginIdExtractor.MIGRATION_PLUGIN, section: 'destination', types: ['MigrateDestination'] }
+  ];
+
+  /**
+   * Check if file is a config or migration file that references plugins
+   */
+  isPluginFile(uri: string): boolean {
+    return this.getRules(uri).length > 0;
+  }
+
+  /**
+   * Get completion context at the end of a line prefix
+   * Returns null when the cursor is not on a plugin ID value
+   */
+  findCompletionContext(uri: string, lines: string[], lineNumber: number, prefix: string): PluginIdContext | null {
+    const section = this.findSection(lines, lineNumber);
+
+    for (const rule of this.getRules(uri)) {
+      if (rule.section && rule.section !== section) continue;
+
+      const match = prefix.match(rule.pattern);
+      if (match && match[0].length === prefix.length) {
+        return { types: rule.types, typedText: match[3] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find all plugin IDs in a document with their positions
+   */
+  findPluginIds(uri: string, text: string): PluginIdMatch[] {
+    const rules = this.getRules(uri);
+    if (rules.length === 0) return [];
+
+    const results: PluginIdMatch[] = [];
+    const lines = text.split('\n');
+    let section: string | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const sectionMatch = lines[i].match(/^([a-zA-Z0-9_]+):/);
+      if (sectionMatch) section = sectionMatch[1];
+
+      for (const rule of rules) {
+        if (rule.section && rule.section !== section) continue;
+
+        const match = lines[i].match(rule.pattern);
+        if (!match || !match[3]) continue;
+
+        const start = match[1].length + match[2].length;
+        results.push({ pluginId: match[3], types: rule.types, line: i, start, end: start + match[3].length });
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Extract plugin ID at given position
+   */
+  extractPluginId(uri: string, text: string, lineNumber: number, character: number): PluginIdMatch | null {
+    return this.findPluginIds(uri, text)
+      .find((m) => m.line === lineNumber && character >= m.start && character <= m.end) || null;
+  }
+
+  private getRules(uri: string): PluginIdRule[] {
+    const fileName = path.basename(uri);
+
+    if (/^block\.block\..+\.yml$/.test(fileName)) return YamlPluginIdExtractor.BLOCK_RULES;
+    if (/^core\.entity_view_display\..+\.yml$/.test(fileName)) return YamlPluginIdExtractor.VIEW_DISPLAY_RULES;
+    if (/^core\.entity_form_display\..+\.yml$/.test(fileName)) return YamlPluginIdExtractor.FORM_DISPLAY_RULES;
+    if (/^migrate_plus\.migration\..+\.yml$/.test(fileName) || /\/migrations\/[^/]+\.yml$/.test(uri)) {
+      return YamlPluginIdExtractor.MIGRATION_RULES;
+    }
+
+    return [];
+  }
+
+  /**
+   * Get the top-level key the line belongs to
+   */
+  private findSection(lines: string[], lineNumber: number): string | null {
+    for (let i = lineNumber; i >= 0; i--) {
+      const match = lines[i].match(/^([a-zA-Z0-9_]+):/);
+      if (match) return match[1];
+    }
+    return null;
+  }
+}
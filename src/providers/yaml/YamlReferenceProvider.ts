@@ -0,0 +1,35 @@
+import { Location, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { IReferenceProvider } from '../IReferenceProvider';
+import { UsageLocator } from '../base/UsageLocator';
+import { YamlServiceNameExtractor } from './YamlServiceNameExtractor';
+
+/**
+ * YAML Reference Provider
+ * Finds all references of a service from its key, parent: or @service in .services.yml
+ */
+export class YamlReferenceProvider implements IReferenceProvider {
+  private extractor: YamlServiceNameExtractor;
+  private locator: UsageLocator;
+
+  constructor() {
+    this.extractor = new YamlServiceNameExtractor();
+    this.locator = new UsageLocator();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    return document.uri.endsWith('.services.yml');
+  }
+
+  async provideReferences(document: TextDocument, position: Position, includeDeclaration: boolean): Promise<Location[]> {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    const serviceName = this.extractor.extractServiceReference(line, position.character);
+    if (!serviceName) return [];
+
+    return this.locator.getLocations('service', serviceName, includeDeclaration);
+  }
+}
@@ -0,0 +1,55 @@
+import { Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BaseRenameProvider, RenameSymbol } from '../base/BaseRenameProvider';
+import { YamlServiceNameExtractor } from './YamlServiceNameExtractor';
+import { YamlRouteNameExtractor } from './YamlRouteNameExtractor';
+
+/**
+ * YAML Rename Provider
+ * Renames custom services and routes:
+ * - service key, parent: or @service in .services.yml
+ * - route key in .routing.yml
+ * - route_name:, route:, base_route: and appears_on: in .links.*.yml
+ */
+export class YamlRenameProvider extends BaseRenameProvider {
+  private serviceExtractor: YamlServiceNameExtractor;
+  private routeExtractor: YamlRouteNameExtractor;
+
+  constructor() {
+    super();
+    this.serviceExtractor = new YamlServiceNameExtractor();
+    this.routeExtractor = new YamlRouteNameExtractor();
+  }
+
+  canProvide(document: TextDocument): boolean {
+    const uri = document.uri;
+    return uri.endsWith('.services.yml') || uri.endsWith('.routing.yml') ||
+      (uri.includes('.links.') && uri.endsWith('.yml'));
+  }
+
+  protected extractSymbol(document: TextDocument, position: Position): RenameSymbol | null {
+    const line = document.getText({
+      start: { line: position.line, character: 0 },
+      end: { line: position.line, character: 1000 }
+    });
+
+    let type: RenameSymbol['type'] = 'route';
+    let name: string | null = null;
+
+    if (document.uri.endsWith('.services.yml')) {
+      type = 'service';
+      name = this.serviceExtractor.extractServiceReference(line, position.character);
+    } else if (document.uri.endsWith('.routing.yml')) {
+      // Route names are top-level keys
+      const match = line.match(/^([a-zA-Z0-9_.]+):\s*$/);
+      name = match ? match[1] : null;
+    } else {
+      name = this.routeExtractor.extractLinksRouteName(document.getText().split('\n'), position.line);
+    }
+
+    if (!name) return null;
+
+    const range = this.findRangeAtCharacter(line, position.line, name, position.character);
+    return range ? { type, name, range } : null;
+  }
+}
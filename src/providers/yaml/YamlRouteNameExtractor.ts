@@ -18,4 +18,45 @@ export class YamlRouteNameExtractor {
     const match = line.match(/\s*(?:route_name|route|base_route):\s*['"]?([a-z0-9._]*)$/);
     return match ? match[1] : '';
   }
+
+  /**
+   * Extract route name from route_name:, route:, base_route: or appears_on: value
+   */
+  extractRouteName(line: string): string | null {
+    const match = line.match(/^\s*(?:route_name|route|base_route|appears_on):\s*['"]?([a-zA-Z0-9_.]+)['"]?\s*$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Extract route name from a list item ("- route.name")
+   * Caller is responsible for checking the list belongs to appears_on:
+   */
+  extractListItemRouteName(line: string): string | null {
+    const match = line.match(/^\s*-\s*['"]?([a-zA-Z0-9_.]+)['"]?\s*$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Check if a list item line belongs to an appears_on: key
+   */
+  isInAppearsOnList(lines: string[], lineNumber: number): boolean {
+    for (let i = lineNumber - 1; i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      if (!trimmed || trimmed.startsWith('-')) continue;
+      return /^appears_on:\s*$/.test(trimmed);
+    }
+
+    return false;
+  }
+
+  /**
+   * Extract route name from any route reference in a links file
+   */
+  extractLinksRouteName(lines: string[], lineNumber: number): string | null {
+    const line = lines[lineNumber] || '';
+    const routeName = this.extractRouteName(line);
+    if (routeName) return routeName;
+
+    return this.isInAppearsOnList(lines, lineNumber) ? this.extractListItemRouteName(line) : null;
+  }
 }
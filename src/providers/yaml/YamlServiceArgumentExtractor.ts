@@ -0,0 +1,126 @@
+import * as YAML from 'yaml';
+
+export type ServiceArgumentMatch = { value: unknown; line: number; start: number; end: number };
+
+export type ServiceCallMatch = {
+  method: string;
+  arguments: ServiceArgumentMatch[] | null;
+  line: number;
+  start: number;
+  end: number;
+};
+
+export type ServiceDefinitionMatch = {
+  service: string;
+  class?: string;
+  parent?: string;
+  hasFactory: boolean;
+  isAbstract: boolean;
+  autowire: boolean;
+  arguments: ServiceArgumentMatch[] | null; // Null for named arguments like { $logger: '@logger' }
+  calls: ServiceCallMatch[];
+  line: number;
+  start: number;
+  end: number;
+  argumentsKey?: { line: number; start: number; end: number };
+};
+
+/**
+ * Extracts service definitions with the positions of their arguments and method calls from *.services.yml files
+ * Handles calls written as - [setFoo, ['@foo']] and - { method: setFoo, arguments: ['@foo'] }
+ */
+export class YamlServiceArgumentExtractor {
+  /**
+   * Find all service definitions, skipping aliases and _defaults
+   */
+  findDefinitions(text: string): ServiceDefinitionMatch[] {
+    const results: ServiceDefinitionMatch[] = [];
+    const lineCounter = new YAML.LineCounter();
+    const parsed = YAML.parseDocument(text, { lineCounter });
+
+    const services = parsed.get('services');
+    if (!YAML.isMap(services)) return results;
+
+    const position = (node: YAML.Node) => {
+      const range = node.range ?? [0, 0];
+      const pos = lineCounter.linePos(range[0]);
+      return { line: pos.line - 1, start: pos.col - 1, end: pos.col - 1 + (range[1] - range[0]) };
+    };
+
+    const defaults = services.get('_defaults');
+    const defaultAutowire = YAML.isMap(defaults) && defaults.get('autowire') === true;
+
+    for (const pair of services.items) {
+      if (!YAML.isScalar(pair.key) || !YAML.isMap(pair.value)) continue;
+
+      const name = String(pair.key.value);
+      const definition = pair.value;
+      if (name.startsWith('_') || definition.has('alias')) continue;
+
+      const className = definition.get('class');
+      const parent = definition.get('parent');
+      const autowire = definition.get('autowire');
+      const isClassName = /^\\?[A-Za-z_][\w\\]*\\\w+$/.test(name);
+
+      const argumentsPair = definition.items.find((item) => YAML.isScalar(item.key) && item.key.value === 'arguments');
+      const callsNode = definition.get('calls');
+
+      results.push({
+        service: name,
+        class: typeof className === 'string'
+          ? className.replace(/^\\/, '')
+          : typeof parent !== 'string' && isClassName ? name.replace(/^\\/, '') : undefined,
+        parent: typeof parent === 'string' ? parent.replace(/^@/, '') : undefined,
+        hasFactory: definition.has('factory'),
+        isAbstract: definition.get('abstract') === true,
+        autowire: typeof autowire === 'boolean' ? autowire : defaultAutowire,
+        arguments: this.readArguments(argumentsPair?.value, position),
+        calls: YAML.isSeq(callsNode) ? this.readCalls(callsNode, position) : [],
+        ...position(pair.key),
+        argumentsKey: YAML.isScalar(argumentsPair?.key) ? position(argumentsPair.key) : undefined
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Read a positional argument list, a missing list has no arguments
+   */
+  private readArguments(
+    node: unknown,
+    position: (node: YAML.Node) => { line: number; start: number; end: number }
+  ): ServiceArgumentMatch[] | null {
+    if (node === undefined || node === null || (YAML.isScalar(node) && node.value === null)) return [];
+    if (!YAML.isSeq(node)) return null;
+
+    return node.items
+      .filter((item): item is YAML.Node => YAML.isNode(item))
+      .map((item) => ({ value: item.toJSON(), ...position(item) }));
+  }
+
+  private readCalls(
+    calls: YAML.YAMLSeq,
+    position: (node: YAML.Node) => { line: number; start: number; end: number }
+  ): ServiceCallMatch[] {
+    const results: ServiceCallMatch[] = [];
+
+    for (const call of calls.items) {
+      let method: unknown;
+      let args: unknown;
+
+      if (YAML.isSeq(call)) {
+        method = call.items[0];
+        args = call.items[1];
+      } else if (YAML.isMap(call)) {
+        method = call.get('method', true);
+        args = call.get('arguments', true);
+      }
+
+      if (!YAML.isScalar(method) || typeof method.value !== 'string') continue;
+      results.push({ method: method.value, arguments: this.readArguments(args, position), ...position(method) });
+    }
+
+    return results;
+  }
+}
@@ -15,7 +15,8 @@ export class YamlServiceNameExtractor extends BaseServiceNameExtractor {
 
     // Check for @ references in arguments - find ALL matches
     // Example: "- '@service_one', '@service_two', '@service_three'"
-    const regex = /@([a-z0-9._]+)/g;
+    // The @ must start a scalar, emails like 'x@example.com' are not references
+    const regex = /(?<=(?:^\s*-|[[,])\s*|['"])@([a-z0-9._]+)/g;
     let argMatch;
 
     while ((argMatch = regex.exec(line)) !== null) {
@@ -32,4 +33,17 @@ export class YamlServiceNameExtractor extends BaseServiceNameExtractor {
 
     return null;
   }
+
+  /**
+   * Extract service name including parent: values
+   * Only valid for .services.yml files (parent: in links files refers to links)
+   */
+  extractServiceReference(line: string, character: number): string | null {
+    const parentMatch = line.match(/^\s*parent:\s*['"]?([a-zA-Z0-9_.]+)['"]?\s*$/);
+    if (parentMatch) {
+      return parentMatch[1];
+    }
+
+    return this.extractServiceName(line, character);
+  }
 }
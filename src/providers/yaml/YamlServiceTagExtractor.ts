@@ -0,0 +1,109 @@
+import * as YAML from 'yaml';
+
+export type ServiceTagAttributeMatch = { key: string; value: unknown; line: number; start: number; end: number };
+
+export type ServiceTagMatch = {
+  service: string;
+  tag: string;
+  line: number;
+  start: number;
+  end: number;
+  attributes: ServiceTagAttributeMatch[];
+};
+
+export type ServiceTagContext = { typedText: string };
+
+/**
+ * Extracts service tags from *.services.yml files
+ * Handles tags written as - { name: event_subscriber, priority: 10 }, - name: event_subscriber and - event_subscriber
+ */
+export class YamlServiceTagExtractor {
+  /**
+   * Get completion context when typing a tag name under tags:
+   */
+  findCompletionContext(lines: string[], lineNumber: number, prefix: string): ServiceTagContext | null {
+    const match = prefix.match(/^\s*(?:-\s*)?(?:\{\s*)?name:\s*['"]?([a-zA-Z0-9_.]*)$/);
+    if (!match) return null;
+
+    return this.isInTags(lines, lineNumber, prefix) ? { typedText: match[1] } : null;
+  }
+
+  /**
+   * Find all service tags with the positions of their names and attributes
+   */
+  findTags(text: string): ServiceTagMatch[] {
+    const results: ServiceTagMatch[] = [];
+    const lineCounter = new YAML.LineCounter();
+    const parsed = YAML.parseDocument(text, { lineCounter });
+
+    const services = parsed.get('services');
+    if (!YAML.isMap(services)) return results;
+
+    const position = (node: YAML.Node) => {
+      const range = node.range ?? [0, 0];
+      const pos = lineCounter.linePos(range[0]);
+      return { line: pos.line - 1, start: pos.col - 1, end: pos.col - 1 + (range[1] - range[0]) };
+    };
+
+    for (const pair of services.items) {
+      if (!YAML.isScalar(pair.key) || !YAML.isMap(pair.value)) continue;
+
+      const tags = pair.value.get('tags');
+      if (!YAML.isSeq(tags)) continue;
+
+      for (const item of tags.items) {
+        if (YAML.isScalar(item) && typeof item.value === 'string') {
+          results.push({ service: String(pair.key.value), tag: item.value, ...position(item), attributes: [] });
+          continue;
+        }
+        if (!YAML.isMap(item)) continue;
+
+        const name = item.get('name', true);
+        if (!YAML.isScalar(name) || typeof name.value !== 'string') continue;
+
+        const attributes: ServiceTagAttributeMatch[] = [];
+        for (const attribute of item.items) {
+          if (!YAML.isScalar(attribute.key) || attribute.key.value === 'name' || !YAML.isNode(attribute.value)) continue;
+          attributes.push({
+            key: String(attribute.key.value),
+            value: attribute.value.toJSON(),
+            ...position(attribute.value)
+          });
+        }
+
+        results.push({ service: String(pair.key.value), tag: name.value, ...position(name), attributes });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Check if a line is a tag item, walking up past the item to the key holding the list
+   * Lists may be indented below their key or written at the same indentation
+   */
+  private isInTags(lines: string[], lineNumber: number, prefix: string): boolean {
+    let limit = prefix.search(/\S/);
+    let limitIsItem = /^\s*-/.test(prefix);
+
+    for (let i = lineNumber - 1; i >= 0; i--) {
+      const line = lines[i];
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const indent = line.search(/\S/);
+      const isItem = /^\s*-/.test(line);
+
+      if (isItem && indent < limit) {
+        limit = indent;
+        limitIsItem = true;
+        continue;
+      }
+
+      if (!isItem && (indent < limit || (indent === limit && limitIsItem))) {
+        return /^\s*tags:\s*$/.test(line);
+      }
+    }
+
+    return false;
+  }
+}
@@ -15,7 +15,16 @@ import {
   CodeAction,
   ExecuteCommandParams,
   DocumentFormattingParams,
-  TextEdit
+  TextEdit,
+  ReferenceParams,
+  Location,
+  PrepareRenameParams,
+  RenameParams,
+  Range,
+  WorkspaceEdit,
+  ResponseError,
+  ImplementationParams,
+  DiagnosticRefreshRequest
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -23,9 +32,23 @@ import { ICompletionProvider } from './providers/ICompletionProvider';
 import { IDefinitionProvider } from './providers/IDefinitionProvider';
 import { IDiagnosticProvider } from './providers/IDiagnosticProvider';
 import { IHoverProvider } from './providers/IHoverProvider';
+import { IReferenceProvider } from './providers/IReferenceProvider';
+import { IRenameProvider } from './providers/IRenameProvider';
+import { IImplementationProvider } from './providers/IImplementationProvider';
+import { ICodeActionProvider } from './providers/ICodeActionProvider';
 import { YamlServiceParser } from './parsers/YamlServiceParser';
 import { YamlRouteParser } from './parsers/YamlRouteParser';
 import { YamlLinkParser } from './parsers/YamlLinkParser';
+import { YamlPermissionParser } from './parsers/YamlPermissionParser';
+import { YamlInfoParser } from './parsers/YamlInfoParser';
+import { YamlLibraryParser } from './parsers/YamlLibraryParser';
+import { YamlConfigSchemaParser } from './parsers/YamlConfigSchemaParser';
+import { YamlConfigParser } from './parsers/YamlConfigParser';
+import { UsageParser } from './parsers/UsageParser';
+import { HookParser } from './parsers/HookParser';
+import { ThemeHookParser } from './parsers/ThemeHookParser';
+import { PluginParser } from './parsers/PluginParser';
+import { EventSubscriberParser } from './parsers/EventSubscriberParser';
 import { DrupalProjectResolver } from './utils/DrupalProjectResolver';
 import { PhpCsProvider } from './providers/php/PhpCsProvider';
 import { ServerSettings, defaultSettings } from './types/ServerSettings';
@@ -37,7 +60,20 @@ import { YamlHoverProvider } from './providers/yaml/YamlHoverProvider';
 import { PhpDefinitionProvider } from './providers/php/PhpDefinitionProvider';
 import { PhpDiagnosticProvider } from './providers/php/PhpDiagnosticProvider';
 import { PhpHoverProvider } from './providers/php/PhpHoverProvider';
+import { YamlReferenceProvider } from './providers/yaml/YamlReferenceProvider';
+import { PhpReferenceProvider } from './providers/php/PhpReferenceProvider';
+import { YamlRenameProvider } from './providers/yaml/YamlRenameProvider';
+import { PhpRenameProvider } from './providers/php/PhpRenameProvider';
+import { PhpImplementationProvider } from './providers/php/PhpImplementationProvider';
+import { PhpCodeActionProvider } from './providers/php/PhpCodeActionProvider';
+import { TwigCompletionProvider } from './providers/twig/TwigCompletionProvider';
+import { TwigDiagnosticProvider } from './providers/twig/TwigDiagnosticProvider';
+import { TwigDefinitionProvider } from './providers/twig/TwigDefinitionProvider';
+import { TwigHoverProvider } from './providers/twig/TwigHoverProvider';
 import { CacheManager } from './utils/CacheManager';
+import { IndexSnapshot } from './utils/IndexSnapshot';
+import { IndexProgressCallback } from './types/IndexProgress';
+import { SERVICES_BY_TAG_REQUEST, ServicesByTagParams, TaggedService } from './types/CustomRequests';
 
 const connection = createConnection(ProposedFeatures.all);
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
@@ -47,10 +83,26 @@ let drupalResolver: DrupalProjectResolver;
 let yamlServiceParser: YamlServiceParser;
 let yamlRouteParser: YamlRouteParser;
 let yamlLinkParser: YamlLinkParser;
+let yamlPermissionParser: YamlPermissionParser;
+let yamlInfoParser: YamlInfoParser;
+let yamlLibraryParser: YamlLibraryParser;
+let yamlConfigSchemaParser: YamlConfigSchemaParser;
+let yamlConfigParser: YamlConfigParser;
+let usageParser: UsageParser;
+let hookParser: HookParser;
+let themeHookParser: ThemeHookParser;
+let pluginParser: PluginParser;
+let eventSubscriberParser: EventSubscriberParser;
 let phpCsProvider: PhpCsProvider;
 let cacheManager: CacheManager<unknown>;
+let indexSnapshot: IndexSnapshot;
 const serverSettings: ServerSettings = defaultSettings;
 
+// Initial workspace index state, requests are answered from partial data while indexing
+let indexing = false;
+let indexReady: Promise<void> = Promise.resolve();
+let hasDiagnosticRefreshSupport = false;
+
 export function getYamlServiceParser(): YamlServiceParser {
   return yamlServiceParser;
 }
@@ -63,6 +115,46 @@ export function getYamlLinkParser(): YamlLinkParser {
   return yamlLinkParser;
 }
 
+export function getYamlPermissionParser(): YamlPermissionParser {
+  return yamlPermissionParser;
+}
+
+export function getYamlInfoParser(): YamlInfoParser {
+  return yamlInfoParser;
+}
+
+export function getYamlLibraryParser(): YamlLibraryParser {
+  return yamlLibraryParser;
+}
+
+export function getYamlConfigSchemaParser(): YamlConfigSchemaParser {
+  return yamlConfigSchemaParser;
+}
+
+export function getYamlConfigParser(): YamlConfigParser {
+  return yamlConfigParser;
+}
+
+export function getUsageParser(): UsageParser {
+  return usageParser;
+}
+
+export function getHookParser(): HookParser {
+  return hookParser;
+}
+
+export function getThemeHookParser(): ThemeHookParser {
+  return themeHookParser;
+}
+
+export function getPluginParser(): PluginParser {
+  return pluginParser;
+}
+
+export function getEventSubscriberParser(): EventSubscriberParser {
+  return eventSubscriberParser;
+}
+
 export function getPhpCsProvider(): PhpCsProvider {
   return phpCsProvider;
 }
@@ -71,6 +163,10 @@ export function getCacheManager(): CacheManager<unknown> {
   return cacheManager;
 }
 
+export function getIndexSnapshot(): IndexSnapshot {
+  return indexSnapshot;
+}
+
 /**
  * Check if file path is in custom code (not core/contrib)
  * Features like formatting/diagnostics should only run on custom code
@@ -84,6 +180,10 @@ const completionProviders: ICompletionProvider[] = [];
 const definitionProviders: IDefinitionProvider[] = [];
 const diagnosticProviders: IDiagnosticProvider[] = [];
 const hoverProviders: IHoverProvider[] = [];
+const referenceProviders: IReferenceProvider[] = [];
+const renameProviders: IRenameProvider[] = [];
+const implementationProviders: IImplementationProvider[] = [];
+const codeActionProviders: ICodeActionProvider[] = [];
 
 connection.onInitialize(async (params: InitializeParams) => {
   // Use workspaceFolders instead of deprecated rootUri
@@ -119,8 +219,25 @@ connection.onInitialize(async (params: InitializeParams) => {
     yamlServiceParser = new YamlServiceParser(drupalResolver);
     yamlRouteParser = new YamlRouteParser(drupalResolver);
     yamlLinkParser = new YamlLinkParser(drupalResolver);
+    yamlPermissionParser = new YamlPermissionParser(drupalResolver);
+    yamlInfoParser = new YamlInfoParser(drupalResolver);
+    yamlLibraryParser = new YamlLibraryParser(drupalResolver);
+    yamlConfigSchemaParser = new YamlConfigSchemaParser(drupalResolver);
+    yamlConfigParser = new YamlConfigParser(drupalResolver);
+    usageParser = new UsageParser(drupalResolver);
+    hookParser = new HookParser(drupalResolver);
+    themeHookParser = new ThemeHookParser(drupalResolver);
+    pluginParser = new PluginParser(drupalResolver);
+    eventSubscriberParser = new EventSubscriberParser(drupalResolver);
     phpCsProvider = new PhpCsProvider(workspaceRoot, serverSettings.phpcs.enabled);
     cacheManager = new CacheManager<unknown>();
+    indexSnapshot = new IndexSnapshot(drupalResolver.getDrupalRootAbsolute());
+
+    // Load parsed records from the previous session
+    const snapshotFiles = indexSnapshot.load();
+    if (snapshotFiles > 0) {
+      connection.console.log(`Loaded index snapshot for ${snapshotFiles} files from ${indexSnapshot.getPath()}`);
+    }
 
     // Periodic cache cleanup every 5 minutes
     setInterval(() => {
@@ -130,29 +247,9 @@ connection.onInitialize(async (params: InitializeParams) => {
       }
     }, 5 * 60 * 1000); // Every 5 minutes
 
-    // Initialize YAML service parser - AWAIT to ensure indexing completes
-    try {
-      const servicesCount = await yamlServiceParser.scanAndIndex();
-      connection.console.log(`Indexed ${servicesCount} services`);
-    } catch (err) {
-      connection.console.error(`Failed to index service files: ${err}`);
-    }
-
-    // Initialize YAML route parser
-    try {
-      const routesCount = await yamlRouteParser.scanAndIndex();
-      connection.console.log(`Indexed ${routesCount} routes`);
-    } catch (err) {
-      connection.console.error(`Failed to index routing files: ${err}`);
-    }
-
-    // Initialize YAML link parser
-    try {
-      const linksCount = await yamlLinkParser.scanAndIndex();
-      connection.console.log(`Indexed ${linksCount} links`);
-    } catch (err) {
-      connection.console.error(`Failed to index links files: ${err}`);
-    }
+    // Indexing starts once the client is initialized, see indexWorkspace()
+    indexing = true;
+    hasDiagnosticRefreshSupport = !!params.capabilities.workspace?.diagnostics?.refreshSupport;
 
     // Check phpcs availability
     if (phpCsProvider.isEnabled()) {
@@ -164,12 +261,22 @@ connection.onInitialize(async (params: InitializeParams) => {
     // Register providers
     completionProviders.push(new YamlCompletionProvider());
     completionProviders.push(new PhpCompletionProvider());
+    completionProviders.push(new TwigCompletionProvider());
     definitionProviders.push(new YamlDefinitionProvider());
     definitionProviders.push(new PhpDefinitionProvider());
+    definitionProviders.push(new TwigDefinitionProvider());
     diagnosticProviders.push(new YamlDiagnosticProvider());
     diagnosticProviders.push(new PhpDiagnosticProvider());
+    diagnosticProviders.push(new TwigDiagnosticProvider());
     hoverProviders.push(new YamlHoverProvider());
     hoverProviders.push(new PhpHoverProvider());
+    hoverProviders.push(new TwigHoverProvider());
+    referenceProviders.push(new YamlReferenceProvider());
+    referenceProviders.push(new PhpReferenceProvider());
+    renameProviders.push(new YamlRenameProvider());
+    renameProviders.push(new PhpRenameProvider());
+    implementationProviders.push(new PhpImplementationProvider());
+    codeActionProviders.push(new PhpCodeActionProvider());
   }
 
   const result: InitializeResult = {
@@ -177,10 +284,15 @@ connection.onInitialize(async (params: InitializeParams) => {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       completionProvider: {
         resolveProvider: false,
-        triggerCharacters: ['.', ':', '\\', '(', "'", '"', ' ']
+        triggerCharacters: ['.', ':', '\\', '(', "'", '"', ' ', '|']
       },
       definitionProvider: true,
       hoverProvider: true,
+      referencesProvider: true,
+      implementationProvider: true,
+      renameProvider: {
+        prepareProvider: true
+      },
       documentFormattingProvider: true,
       codeActionProvider: true,
       executeCommandProvider: {
@@ -196,6 +308,77 @@ connection.onInitialize(async (params: InitializeParams) => {
   return result;
 });
 
+connection.onInitialized(() => {
+  if (indexing) {
+    indexReady = indexWorkspace();
+  }
+});
+
+/**
+ * Build the workspace index and report work done progress to the client
+ * Diagnostics are refreshed once the index is complete
+ */
+async function indexWorkspace(): Promise<void> {
+  const phases: Array<{
+    label: string;
+    files: string;
+    scan: (onProgress: IndexProgressCallback) => Promise<number>;
+  }> = [
+    { label: 'services', files: 'service files', scan: (onProgress) => yamlServiceParser.scanAndIndex(onProgress) },
+    { label: 'routes', files: 'routing files', scan: (onProgress) => yamlRouteParser.scanAndIndex(onProgress) },
+    { label: 'links', files: 'links files', scan: (onProgress) => yamlLinkParser.scanAndIndex(onProgress) },
+    { label: 'permissions', files: 'permission files', scan: (onProgress) => yamlPermissionParser.scanAndIndex(onProgress) },
+    { label: 'extensions', files: 'info files', scan: (onProgress) => yamlInfoParser.scanAndIndex(onProgress) },
+    { label: 'libraries', files: 'libraries files', scan: (onProgress) => yamlLibraryParser.scanAndIndex(onProgress) },
+    { label: 'config schema types', files: 'schema files', scan: (onProgress) => yamlConfigSchemaParser.scanAndIndex(onProgress) },
+    { label: 'config objects', files: 'config files', scan: (onProgress) => yamlConfigParser.scanAndIndex(onProgress) },
+    { label: 'hooks', files: 'hook API files', scan: (onProgress) => hookParser.scanAndIndex(onProgress) },
+    { label: 'theme hooks', files: 'hook_theme() files', scan: (onProgress) => themeHookParser.scanAndIndex(onProgress) },
+    { label: 'plugins', files: 'plugin classes', scan: (onProgress) => pluginParser.scanAndIndex(onProgress) },
+    { label: 'event subscriptions', files: 'event subscribers', scan: (onProgress) => eventSubscriberParser.scanAndIndex(onProgress) },
+    { label: 'usages', files: 'usages', scan: (onProgress) => usageParser.scanAndIndex(onProgress) }
+  ];
+
+  const progress = await connection.window.createWorkDoneProgress().catch(() => undefined);
+  progress?.begin('Drupal LSP', 0, 'Indexing', false);
+
+  for (const [phaseIndex, phase] of phases.entries()) {
+    let lastPercentage = -1;
+
+    const onProgress: IndexProgressCallback = async (processed, total) => {
+      // Each phase takes an equal share of the progress bar
+      const percentage = Math.floor(((phaseIndex + processed / total) / phases.length) * 100);
+      if (percentage !== lastPercentage || processed === total) {
+        lastPercentage = percentage;
+        progress?.report(percentage, `Indexing ${phase.label} ${processed}/${total}`);
+      }
+
+      // Let pending requests run between batches of files
+      if (processed % 50 === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    };
+
+    try {
+      const count = await phase.scan(onProgress);
+      connection.console.log(`Indexed ${count} ${phase.label}`);
+    } catch (err) {
+      connection.console.error(`Failed to index ${phase.files}: ${err}`);
+    }
+  }
+
+  indexSnapshot.save();
+  indexing = false;
+  progress?.done();
+
+  if (hasDiagnosticRefreshSupport) {
+    // Sent directly, the refresh() helper is typed void and would hide a rejected request
+    connection.sendRequest(DiagnosticRefreshRequest.type).catch((err) => {
+      connection.console.error(`Failed to refresh diagnostics: ${err}`);
+    });
+  }
+}
+
 // Completion handler
 connection.onCompletion(
   async (params: TextDocumentPositionParams): Promise<CompletionItem[]> => {
@@ -274,11 +457,116 @@ connection.onHover(
   }
 );
 
+// References handler (find all references)
+connection.onReferences(
+  async (params: ReferenceParams): Promise<Location[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    // Partial usages would give an incomplete list, wait for the initial index
+    await indexReady;
+
+    for (const provider of referenceProviders) {
+      if (provider.canProvide(document, params.position)) {
+        try {
+          const locations = await provider.provideReferences(
+            document,
+            params.position,
+            params.context.includeDeclaration
+          );
+          if (locations.length > 0) return locations;
+        } catch (err) {
+          connection.console.error(`References error: ${err}`);
+        }
+      }
+    }
+
+    return [];
+  }
+);
+
+// Implementation handler (go to event subscribers)
+connection.onImplementation(
+  async (params: ImplementationParams): Promise<Location[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    // Subscribers are indexed after services, wait for the initial index
+    await indexReady;
+
+    for (const provider of implementationProviders) {
+      if (provider.canProvide(document, params.position)) {
+        try {
+          const locations = await provider.provideImplementation(document, params.position);
+          if (locations.length > 0) return locations;
+        } catch (err) {
+          connection.console.error(`Implementation error: ${err}`);
+        }
+      }
+    }
+
+    return [];
+  }
+);
+
+// Prepare rename handler - validates the symbol and returns its range
+connection.onPrepareRename(
+  async (params: PrepareRenameParams): Promise<Range | null> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    await indexReady;
+
+    for (const provider of renameProviders) {
+      if (provider.canProvide(document, params.position)) {
+        try {
+          const range = await provider.prepareRename(document, params.position);
+          if (range) return range;
+        } catch (err) {
+          // Rejections carry a message for the user
+          if (err instanceof ResponseError) throw err;
+          connection.console.error(`Prepare rename error: ${err}`);
+        }
+      }
+    }
+
+    return null;
+  }
+);
+
+// Rename handler
+connection.onRenameRequest(
+  async (params: RenameParams): Promise<WorkspaceEdit | null> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    // Renaming from partial usages would leave stale references behind
+    await indexReady;
+
+    for (const provider of renameProviders) {
+      if (provider.canProvide(document, params.position)) {
+        try {
+          const edit = await provider.provideRename(document, params.position, params.newName);
+          if (edit) return edit;
+        } catch (err) {
+          if (err instanceof ResponseError) throw err;
+          connection.console.error(`Rename error: ${err}`);
+        }
+      }
+    }
+
+    return null;
+  }
+);
+
 // Document change handler - reindex YAML files and clear hover cache
 documents.onDidChangeContent(async (change) => {
   const uri = change.document.uri;
   const filePath = uri.replace('file://', '');
 
+  // Parsers skip the full scan once they hold any entries, let it finish first
+  await indexReady;
+
   // Clear hover cache for PHP files (class/method documentation)
   if (filePath.endsWith('.php')) {
     cacheManager.clearPattern('class:*');
@@ -292,11 +580,14 @@ documents.onDidChangeContent(async (change) => {
       await yamlServiceParser.handleFileChange(filePath).catch((err) => {
         connection.console.error(`Failed to reindex ${filePath}: ${err}`);
       });
+      await eventSubscriberParser?.handleServicesChange().catch((err) => {
+        connection.console.error(`Failed to index event subscribers: ${err}`);
+      });
     }
   }
 
-  // Reindex if it's a .routing.yml file in custom code
-  if (filePath.endsWith('.routing.yml') && yamlRouteParser) {
+  // Reindex if it's a .routing.yml file or entity class in custom code
+  if (YamlRouteParser.isRouteSource(filePath) && yamlRouteParser) {
     if (isCustomCode(filePath)) {
       cacheManager.clearPattern('route:*');
       await yamlRouteParser.handleFileChange(filePath).catch((err) => {
@@ -314,10 +605,104 @@ documents.onDidChangeContent(async (change) => {
       });
     }
   }
+
+  // Reindex if it's a .permissions.yml file in custom code
+  if (filePath.endsWith('.permissions.yml') && yamlPermissionParser) {
+    if (isCustomCode(filePath)) {
+      cacheManager.clearPattern('permission:*');
+      await yamlPermissionParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a .info.yml file in custom code
+  if (filePath.endsWith('.info.yml') && yamlInfoParser) {
+    if (isCustomCode(filePath)) {
+      await yamlInfoParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a .libraries.yml file in custom code
+  if (filePath.endsWith('.libraries.yml') && yamlLibraryParser) {
+    if (isCustomCode(filePath)) {
+      await yamlLibraryParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a config schema file in custom code
+  if (filePath.endsWith('.schema.yml') && yamlConfigSchemaParser) {
+    if (isCustomCode(filePath)) {
+      await yamlConfigSchemaParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a config object file in custom code or the sync directory
+  if (yamlConfigParser && yamlConfigParser.isConfigFile(filePath)) {
+    if (isCustomCode(filePath)) {
+      await yamlConfigParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a *.api.php file or hook class in custom code
+  if ((filePath.endsWith('.api.php') || HookParser.isHookClassFile(filePath)) && hookParser) {
+    if (isCustomCode(filePath)) {
+      cacheManager.clearPattern('hook:*');
+      await hookParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a *.module, *.theme or hook class file that may implement hook_theme() in custom code
+  if (ThemeHookParser.isThemeHookFile(filePath) && themeHookParser) {
+    if (isCustomCode(filePath)) {
+      await themeHookParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's a plugin class in custom code
+  if (PluginParser.isPluginFile(filePath) && pluginParser) {
+    if (isCustomCode(filePath)) {
+      await pluginParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex if it's an event subscriber class or declares event constants in custom code
+  if (filePath.endsWith('.php') && eventSubscriberParser) {
+    if (isCustomCode(filePath)) {
+      await eventSubscriberParser.handleFileChange(filePath).catch((err) => {
+        connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+      });
+    }
+  }
+
+  // Reindex service and route usages from the unsaved document content
+  if (UsageParser.isIndexable(filePath) && usageParser) {
+    if (isCustomCode(filePath)) {
+      await usageParser.handleFileChange(filePath, change.document.getText()).catch((err) => {
+        connection.console.error(`Failed to reindex usages in ${filePath}: ${err}`);
+      });
+    }
+  }
 });
 
 // File system watchers for new/deleted YAML files
 connection.onDidChangeWatchedFiles(async (change) => {
+  await indexReady;
+
   for (const event of change.changes) {
     const filePath = event.uri.replace('file://', '');
     if (!isCustomCode(filePath)) continue;
@@ -328,6 +713,9 @@ connection.onDidChangeWatchedFiles(async (change) => {
         await yamlServiceParser.handleFileChange(filePath).catch((err) => {
           connection.console.error(`Failed to reindex ${filePath}: ${err}`);
         });
+        await eventSubscriberParser?.handleServicesChange().catch((err) => {
+          connection.console.error(`Failed to index event subscribers: ${err}`);
+        });
         connection.console.log(`Reindexed: ${filePath}`);
       }
       if (event.type === 3) {
@@ -336,8 +724,8 @@ connection.onDidChangeWatchedFiles(async (change) => {
       }
     }
 
-    // Handle .routing.yml files
-    if (filePath.endsWith('.routing.yml') && yamlRouteParser) {
+    // Handle .routing.yml files and entity classes
+    if (YamlRouteParser.isRouteSource(filePath) && yamlRouteParser) {
       if (event.type === 1 || event.type === 2) {
         await yamlRouteParser.handleFileChange(filePath).catch((err) => {
           connection.console.error(`Failed to reindex ${filePath}: ${err}`);
@@ -363,6 +751,147 @@ connection.onDidChangeWatchedFiles(async (change) => {
         connection.console.log(`Removed from index: ${filePath}`);
       }
     }
+
+    // Handle .permissions.yml files
+    if (filePath.endsWith('.permissions.yml') && yamlPermissionParser) {
+      if (event.type === 1 || event.type === 2) {
+        await yamlPermissionParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        yamlPermissionParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle .info.yml files
+    if (filePath.endsWith('.info.yml') && yamlInfoParser) {
+      if (event.type === 1 || event.type === 2) {
+        await yamlInfoParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        yamlInfoParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle .libraries.yml files
+    if (filePath.endsWith('.libraries.yml') && yamlLibraryParser) {
+      if (event.type === 1 || event.type === 2) {
+        await yamlLibraryParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        yamlLibraryParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle config schema files
+    if (filePath.endsWith('.schema.yml') && yamlConfigSchemaParser) {
+      if (event.type === 1 || event.type === 2) {
+        await yamlConfigSchemaParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        yamlConfigSchemaParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle config object files
+    if (yamlConfigParser && yamlConfigParser.isConfigFile(filePath)) {
+      if (event.type === 1 || event.type === 2) {
+        await yamlConfigParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        yamlConfigParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle *.api.php files and hook classes
+    if ((filePath.endsWith('.api.php') || HookParser.isHookClassFile(filePath)) && hookParser) {
+      if (event.type === 1 || event.type === 2) {
+        await hookParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        hookParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle hook_theme() implementations
+    if (ThemeHookParser.isThemeHookFile(filePath) && themeHookParser) {
+      if (event.type === 1 || event.type === 2) {
+        await themeHookParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        themeHookParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle plugin classes
+    if (PluginParser.isPluginFile(filePath) && pluginParser) {
+      if (event.type === 1 || event.type === 2) {
+        await pluginParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+        connection.console.log(`Reindexed: ${filePath}`);
+      }
+      if (event.type === 3) {
+        pluginParser.handleFileDelete(filePath);
+        connection.console.log(`Removed from index: ${filePath}`);
+      }
+    }
+
+    // Handle event subscriber classes, new files may belong to an already tagged service
+    if (filePath.endsWith('.php') && eventSubscriberParser) {
+      if (event.type === 1) {
+        await eventSubscriberParser.handleServicesChange().catch((err) => {
+          connection.console.error(`Failed to index event subscribers: ${err}`);
+        });
+      }
+      if (event.type === 2) {
+        await eventSubscriberParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex ${filePath}: ${err}`);
+        });
+      }
+      if (event.type === 3) {
+        eventSubscriberParser.handleFileDelete(filePath);
+      }
+    }
+
+    // Handle files that can reference services or routes
+    if (UsageParser.isIndexable(filePath) && usageParser) {
+      if (event.type === 1 || event.type === 2) {
+        await usageParser.handleFileChange(filePath).catch((err) => {
+          connection.console.error(`Failed to reindex usages in ${filePath}: ${err}`);
+        });
+      }
+      if (event.type === 3) {
+        usageParser.handleFileDelete(filePath);
+      }
+    }
   }
 });
 
@@ -373,6 +902,16 @@ connection.languages.diagnostics.on(async (params) => {
     return { kind: 'full' as const, items: [] };
   }
 
+  // Unknown symbols can't be told apart from unindexed ones yet.
+  // Clients that support it are asked to refresh once indexing completes,
+  // others wait for the index
+  if (indexing) {
+    if (hasDiagnosticRefreshSupport) {
+      return { kind: 'full' as const, items: [] };
+    }
+    await indexReady;
+  }
+
   const diagnostics = [];
   for (const provider of diagnosticProviders) {
     if (provider.canProvide(document)) {
@@ -388,25 +927,58 @@ connection.languages.diagnostics.on(async (params) => {
   return { kind: 'full' as const, items: diagnostics };
 });
 
-// Code Action handler (for phpcbf fixes)
+// Custom request: services tagged with a tag name
+connection.onRequest(
+  SERVICES_BY_TAG_REQUEST,
+  async (params: ServicesByTagParams): Promise<TaggedService[]> => {
+    await indexReady;
+    if (!yamlServiceParser || !params?.tag) return [];
+
+    return yamlServiceParser.getServicesByTag(params.tag).map((service) => {
+      const line = service.sourceLine ? parseInt(service.sourceLine, 10) - 1 : 0;
+
+      return {
+        name: service.name,
+        class: service.class,
+        attributes: service.tags?.find((tag) => tag.name === params.tag)?.attributes ?? {},
+        location: service.sourceFile
+          ? Location.create(`file://${service.sourceFile}`, Range.create(line, 0, line, 0))
+          : undefined
+      };
+    });
+  }
+);
+
+// Code Action handler (phpcbf fixes and refactorings)
 connection.onCodeAction(
   async (params: CodeActionParams): Promise<CodeAction[]> => {
     const document = documents.get(params.textDocument.uri);
-    if (!document) return [];
+    if (!document || !isCustomCode(document.uri)) return [];
 
-    if (!phpCsProvider || !phpCsProvider.isEnabled() || !isCustomCode(document.uri)) {
-      return [];
+    const actions: CodeAction[] = [];
+
+    if (phpCsProvider && phpCsProvider.isEnabled()) {
+      try {
+        actions.push(...await phpCsProvider.getCodeActions(document, params.context.diagnostics));
+      } catch (err) {
+        connection.console.error(`Code action error: ${err}`);
+      }
     }
 
-    try {
-      return await phpCsProvider.getCodeActions(
-        document,
-        params.context.diagnostics
-      );
-    } catch (err) {
-      connection.console.error(`Code action error: ${err}`);
-      return [];
+    // Refactorings look up services, wait for the initial index
+    await indexReady;
+
+    for (const provider of codeActionProviders) {
+      if (provider.canProvide(document)) {
+        try {
+          actions.push(...await provider.provideCodeActions(document, params.range));
+        } catch (err) {
+          connection.console.error(`Code action error: ${err}`);
+        }
+      }
     }
+
+    return actions;
   }
 );
 
@@ -478,5 +1050,10 @@ connection.onDidChangeConfiguration((change) => {
   }
 });
 
+// Persist index changes made during the session
+connection.onShutdown(() => {
+  indexSnapshot?.save();
+});
+
 documents.listen(connection);
 connection.listen();
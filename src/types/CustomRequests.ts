@@ -0,0 +1,17 @@
+import { Location } from 'vscode-languageserver';
+
+/**
+ * drupalLsp/servicesByTag: services tagged with a tag name, e.g. event_subscriber
+ */
+export const SERVICES_BY_TAG_REQUEST = 'drupalLsp/servicesByTag';
+
+export interface ServicesByTagParams {
+  tag: string;
+}
+
+export interface TaggedService {
+  name: string;
+  class?: string;
+  attributes: Record<string, unknown>; // Attributes of the matching tag, e.g. priority
+  location?: Location; // Service definition in its *.services.yml file
+}
@@ -0,0 +1,5 @@
+/**
+ * Called by parsers after each file is indexed
+ * May return a promise so the server can yield to pending requests between files
+ */
+export type IndexProgressCallback = (processed: number, total: number) => void | Promise<void>;
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+interface SnapshotEntry {
+  mtimeMs: number;
+  size: number;
+  records: unknown;
+}
+
+interface SnapshotFile {
+  version: number;
+  drupalRoot: string;
+  namespaces: Record<string, Record<string, SnapshotEntry>>;
+}
+
+/**
+ * Disk-backed snapshot of parsed index records
+ * Records are stored per namespace (parser cache prefix) and file path,
+ * and are only reused while the file's mtime and size are unchanged
+ */
+export class IndexSnapshot {
+  // Bump when the shape of indexed records changes
+  private static readonly FORMAT_VERSION = 3;
+
+  private readonly drupalRoot: string;
+  private readonly snapshotPath: string;
+  private namespaces: Record<string, Record<string, SnapshotEntry>> = {};
+  private dirty = false;
+
+  constructor(drupalRoot: string, cacheDir: string = IndexSnapshot.getDefaultCacheDir()) {
+    this.drupalRoot = drupalRoot;
+    const hash = crypto.createHash('sha1').update(drupalRoot).digest('hex').substring(0, 16);
+    this.snapshotPath = path.join(cacheDir, `index-${hash}.json`);
+  }
+
+  /**
+   * XDG cache directory, e.g. ~/.cache/drupal-lsp
+   */
+  static getDefaultCacheDir(): string {
+    const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    return path.join(base, 'drupal-lsp');
+  }
+
+  getPath(): string {
+    return this.snapshotPath;
+  }
+
+  /**
+   * Load snapshot from disk
+   * Snapshots written by another format version or for another root are ignored
+   */
+  load(): number {
+    try {
+      if (!fs.existsSync(this.snapshotPath)) return 0;
+
+      const data = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf-8')) as SnapshotFile;
+      if (data.version !== IndexSnapshot.FORMAT_VERSION || data.drupalRoot !== this.drupalRoot) {
+        return 0;
+      }
+
+      this.namespaces = data.namespaces || {};
+      this.dirty = false;
+    } catch (error) {
+      console.error('Failed to load index snapshot:', error);
+      this.namespaces = {};
+    }
+
+    return Object.values(this.namespaces).reduce((count, files) => count + Object.keys(files).length, 0);
+  }
+
+  /**
+   * Get records for a file if it hasn't changed since they were stored
+   */
+  get<T>(namespace: string, filePath: string): T | undefined {
+    const entry = this.namespaces[namespace]?.[filePath];
+    if (!entry) return undefined;
+
+    const stat = this.stat(filePath);
+    if (!stat || stat.mtimeMs !== entry.mtimeMs || stat.size !== entry.size) {
+      return undefined;
+    }
+
+    return entry.records as T;
+  }
+
+  /**
+   * Store records for a file along with its current mtime and size
+   */
+  set(namespace: string, filePath: string, records: unknown): void {
+    const stat = this.stat(filePath);
+    if (!stat) {
+      this.delete(namespace, filePath);
+      return;
+    }
+
+    if (!this.namespaces[namespace]) {
+      this.namespaces[namespace] = {};
+    }
+    this.namespaces[namespace][filePath] = { mtimeMs: stat.mtimeMs, size: stat.size, records };
+    this.dirty = true;
+  }
+
+  delete(namespace: string, filePath: string): void {
+    if (this.namespaces[namespace]?.[filePath]) {
+      delete this.namespaces[namespace][filePath];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Drop entries for files that no longer exist in the namespace
+   */
+  retain(namespace: string, filePaths: string[]): void {
+    const files = this.namespaces[namespace];
+    if (!files) return;
+
+    const keep = new Set(filePaths);
+    for (const filePath of Object.keys(files)) {
+      if (!keep.has(filePath)) {
+        delete files[filePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Write snapshot to disk if anything changed
+   * Writes to a temporary file first so a crash never leaves a partial snapshot
+   */
+  save(): void {
+    if (!this.dirty) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.snapshotPath), { recursive: true });
+
+      const data: SnapshotFile = {
+        version: IndexSnapshot.FORMAT_VERSION,
+        drupalRoot: this.drupalRoot,
+        namespaces: this.namespaces
+      };
+      const tmpPath = `${this.snapshotPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(data));
+      fs.renameSync(tmpPath, this.snapshotPath);
+      this.dirty = false;
+    } catch (error) {
+      console.error('Failed to save index snapshot:', error);
+    }
+  }
+
+  private stat(filePath: string): fs.Stats | null {
+    try {
+      return fs.statSync(filePath);
+    } catch {
+      return null;
+    }
+  }
+}